@@ -105,8 +105,7 @@ gulp.task('import-typescript', function() {
 	} catch (err) {
 		fs.mkdirSync(TYPESCRIPT_LIB_DESTINATION);
 	}
-	importLibDeclarationFile('lib.d.ts');
-	importLibDeclarationFile('lib.es6.d.ts');
+	importModularLibDeclarationFiles('lib-modular-ts');
 
 	var tsServices = fs.readFileSync(path.join(TYPESCRIPT_LIB_SOURCE, 'typescriptServices.js')).toString();
 	tsServices +=
@@ -130,13 +129,19 @@ export = ts;
 });
 
 /**
- * Import a lib*.d.ts file from TypeScript's dist
+ * Import the lib.*.d.ts files that can be selected through the `lib` compiler option
+ * into a single module. The big lib.d.ts, lib.es6.d.ts and lib.*.full.d.ts files that
+ * inline the others are left out, the worker composes them from these.
  */
-function importLibDeclarationFile(name) {
-	var dstName = name.replace(/\.d\.ts$/, '').replace(/\./g, '-') + '-ts';
-	var srcPath = path.join(TYPESCRIPT_LIB_SOURCE, name);
+function importModularLibDeclarationFiles(dstName) {
+	var names = fs.readdirSync(TYPESCRIPT_LIB_SOURCE).filter(function(name) {
+		return /^lib\..+\.d\.ts$/.test(name) && name !== 'lib.es6.d.ts' && !/\.full\.d\.ts$/.test(name);
+	}).sort();
 
-	var contents = fs.readFileSync(srcPath).toString();
+	var entries = names.map(function(name) {
+		var contents = fs.readFileSync(path.join(TYPESCRIPT_LIB_SOURCE, name)).toString();
+		return '"' + name + '": "' + escapeText(contents) + '"';
+	});
 
 	var dstPath1 = path.join(TYPESCRIPT_LIB_DESTINATION, dstName + '.js');
 	fs.writeFileSync(dstPath1,
@@ -145,9 +150,11 @@ function importLibDeclarationFile(name) {
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-// This is a generated file from ${name}
+// This is a generated file from ${names.join(', ')}
 
-define([], function() { return { contents: "${escapeText(contents)}"}; });
+define([], function() { return { libs: {
+${entries.join(',\n')}
+}}; });
 
 `);
 
@@ -158,7 +165,7 @@ define([], function() { return { contents: "${escapeText(contents)}"}; });
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-export declare var contents: string;
+export declare var libs: { [fileName: string]: string };
 `);
 }
 
@@ -6,7 +6,7 @@
 
 import { LanguageServiceDefaultsImpl } from './monaco.contribution';
 import * as ts from '../lib/typescriptServices';
-import { TypeScriptWorker } from './worker';
+import { TypeScriptWorker, IArgumentInfo, IAutoImport, ICompletionEntry, CallSnippetMode } from './worker';
 
 import Uri = monaco.Uri;
 import Position = monaco.Position;
@@ -96,27 +96,31 @@ export class DiagnostcsAdapter extends Adapter {
 
 	private _disposables: IDisposable[] = [];
 	private _listener: { [uri: string]: IDisposable } = Object.create(null);
+	private _pendingValidations: { [uri: string]: Promise<void> } = Object.create(null);
+	private _validationHandle: number;
+	private _validationRun = 0;
 
 	constructor(private _defaults: LanguageServiceDefaultsImpl, private _selector: string,
+		private _editors: () => monaco.editor.ICodeEditor[], private _libFiles: LibFiles,
 		worker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>
 	) {
 		super(worker);
 
 		const onModelAdd = (model: monaco.editor.IModel): void => {
-			if (model.getModeId() !== _selector) {
+			if (model.getModeId() !== _selector || _libFiles.isLibModel(model)) {
 				return;
 			}
 
-			let handle: number;
+			// any change can break other files of the program, so all
+			// models are validated again once the typing has settled
 			const changeSubscription = model.onDidChangeContent(() => {
-				clearTimeout(handle);
-				handle = setTimeout(() => this._doValidate(model.uri), 500);
+				clearTimeout(this._validationHandle);
+				this._validationHandle = setTimeout(() => this._doValidateAll(model.uri), 500);
 			});
 
 			this._listener[model.uri.toString()] = {
 				dispose() {
 					changeSubscription.dispose();
-					clearTimeout(handle);
 				}
 			};
 
@@ -159,12 +163,46 @@ export class DiagnostcsAdapter extends Adapter {
 	}
 
 	public dispose(): void {
+		clearTimeout(this._validationHandle);
+		this._validationRun++;
 		this._disposables.forEach(d => d && d.dispose());
 		this._disposables = [];
 	}
 
-	private _doValidate(resource: Uri): void {
-		this._worker(resource).then(worker => {
+	private _doValidateAll(changed: Uri): void {
+		const run = ++this._validationRun;
+
+		// the changed model goes first, then the models shown in an editor
+		const visible = this._editors()
+			.map(editor => editor.getModel())
+			.filter(model => !!model)
+			.map(model => model.uri.toString());
+		const priority = (model: monaco.editor.IModel): number => {
+			const key = model.uri.toString();
+			return key === changed.toString() ? 0 : visible.indexOf(key) !== -1 ? 1 : 2;
+		};
+		const resources = monaco.editor.getModels()
+			.filter(model => !!this._listener[model.uri.toString()])
+			.sort((a, b) => priority(a) - priority(b))
+			.map(model => model.uri);
+
+		// one model after the other, until a newer change starts another run
+		const next = (): void => {
+			if (run === this._validationRun && resources.length > 0) {
+				this._doValidate(resources.shift()).then(next);
+			}
+		};
+		next();
+	}
+
+	private _doValidate(resource: Uri): Promise<void> {
+		const key = resource.toString();
+		if (this._pendingValidations[key]) {
+			// superseded by this validation
+			this._pendingValidations[key].cancel();
+		}
+
+		const validation = this._worker(resource).then(worker => {
 			if (!monaco.editor.getModel(resource)) {
  				// model was disposed in the meantime
  				return null;
@@ -183,22 +221,39 @@ export class DiagnostcsAdapter extends Adapter {
  				// model was disposed in the meantime
  				return null;
  			}
+			const {diagnosticCodesToIgnore} = this._defaults.getDiagnosticsOptions();
+			const severityOverrides = this._defaults.getDiagnosticSeverityOverrides();
 			const markers = diagnostics
 				.reduce((p, c) => c.concat(p), [])
-				.map(d => this._convertDiagnostics(resource, d));
+				.filter(d => !diagnosticCodesToIgnore || diagnosticCodesToIgnore.indexOf(d.code) === -1)
+				.map(d => this._convertDiagnostics(resource, d, severityOverrides[d.code]))
+				.filter(marker => marker.severity !== monaco.Severity.Ignore);
 
 			monaco.editor.setModelMarkers(monaco.editor.getModel(resource), this._selector, markers);
-		}).done(undefined, err => {
-			console.error(err);
+		});
+		this._pendingValidations[key] = validation;
+
+		const done = () => {
+			if (this._pendingValidations[key] === validation) {
+				delete this._pendingValidations[key];
+			}
+		};
+		return validation.then(done, err => {
+			done();
+			if (!err || err.name !== 'Canceled') {
+				console.error(err);
+			}
 		});
 	}
 
-	private _convertDiagnostics(resource: Uri, diag: ts.Diagnostic): monaco.editor.IMarkerData {
+	private _convertDiagnostics(resource: Uri, diag: ts.Diagnostic, severityOverride?: monaco.Severity): monaco.editor.IMarkerData {
 		const {lineNumber: startLineNumber, column: startColumn} = this._offsetToPosition(resource, diag.start);
 		const {lineNumber: endLineNumber, column: endColumn} = this._offsetToPosition(resource, diag.start + diag.length);
 
 		return {
-			severity: monaco.Severity.Error,
+			severity: typeof severityOverride === 'number' ? severityOverride : DiagnostcsAdapter._convertCategory(diag.category),
+			code: `TS${diag.code}`,
+			source: 'ts',
 			startLineNumber,
 			startColumn,
 			endLineNumber,
@@ -206,6 +261,18 @@ export class DiagnostcsAdapter extends Adapter {
 			message: ts.flattenDiagnosticMessageText(diag.messageText, '\n')
 		};
 	}
+
+	private static _convertCategory(category: ts.DiagnosticCategory): monaco.Severity {
+		switch (category) {
+			case ts.DiagnosticCategory.Error:
+				return monaco.Severity.Error;
+			case ts.DiagnosticCategory.Warning:
+				return monaco.Severity.Warning;
+			case ts.DiagnosticCategory.Message:
+				return monaco.Severity.Info;
+		}
+		return monaco.Severity.Error;
+	}
 }
 
 // --- suggest ------
@@ -216,20 +283,31 @@ interface MyCompletionItem extends monaco.languages.CompletionItem {
 	name: string;
 	containerName?: string;
 	navigation?: ts.NavigateToItem;
-	skipCodeSnippet?: boolean;
+	callSnippetMode?: CallSnippetMode;
+	deprecated?: boolean;
+	snippet?: TypescriptSnippet;
+	autoImport?: IAutoImport;
+	declaration?: { fileName: string; pos: number };
 }
 
 interface TypescriptSnippet {
 	prefix: string;
 	body: string;
 	description?: string;
+	namespace?: string;
 }
 
 export class SuggestAdapter extends Adapter implements monaco.languages.CompletionItemProvider {
 
 	private typescriptSnippets: TypescriptSnippet[] = [];
-
-	constructor(worker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>) {
+	private _acceptListener: IDisposable;
+	private _completionCache: { uri: string; versionId: number; lineNumber: number; startColumn: number; endColumn: number; word: string; values: any[] };
+	// by the file that declares the symbol
+	private _detailsCache: { [fileName: string]: { [key: string]: [ts.CompletionEntryDetails, string] } } = Object.create(null);
+	private _cacheListener: IDisposable;
+
+	constructor(private _defaults: LanguageServiceDefaultsImpl, private _editors: () => monaco.editor.ICodeEditor[],
+		worker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>) {
 		super(worker);
 
 		Object.keys(snippets).forEach((snippetKey) => {
@@ -243,6 +321,15 @@ export class SuggestAdapter extends Adapter implements monaco.languages.Completi
 				description: description
 			})
 		});
+
+		// resolved details stay valid until the declaring file changes
+		const onModelAdd = (model: monaco.editor.IModel) => {
+			model.onDidChangeContent(() => delete this._detailsCache[model.uri.toString()]);
+		};
+		monaco.editor.getModels().forEach(onModelAdd);
+		monaco.editor.onDidCreateModel(onModelAdd);
+		this._defaults.onDidChangeExtraLib(change => delete this._detailsCache[change.filePath]);
+		this._defaults.onDidChange(() => this._detailsCache = Object.create(null));
 	}
 
 	public get triggerCharacters(): string[] {
@@ -254,6 +341,9 @@ export class SuggestAdapter extends Adapter implements monaco.languages.Completi
 		const resource = model.uri;
 		const offset = this._positionToOffset(resource, position);
 
+		// a new list, nothing of the last one is going to be accepted
+		this._disposeAcceptListener();
+
 		const lineContent = model.getLineContent(position.lineNumber);
 		const wordUnderCursor = model.getWordAtPosition(position);
 		let wordBefore = '';
@@ -263,21 +353,78 @@ export class SuggestAdapter extends Adapter implements monaco.languages.Completi
 			wordAfter = lineContent.substring(position.column - 1, wordUnderCursor.endColumn - 1);
 		}
 		const lineContentBefore = lineContent.substr(0, position.column - 1);
-		const lineContentAfter = lineContent.substr(position.column - 1);
 
 		let isNamespace = false;
 		const prevWordInfo = model.getWordUntilPosition(new Position(position.lineNumber, wordInfo.startColumn - 1));
 		if (prevWordInfo && prevWordInfo.word && prevWordInfo.word != "")
 			isNamespace = true;
 
-		return wireCancellationToken(token, this._worker(resource).then(worker => {
-			let promises: Promise<any>[] = [];
-			promises.push(worker.getCompletionsAtPosition(resource.toString(), offset));
-			let promise = worker.getNavigateToItems(wordInfo.word).then(navigation => {
-				if (!navigation || navigation.length == 0) return [];
-				function convert(bucket: MyCompletionItem[], entry: ts.NavigateToItem): void {
+		let values = this._getCachedCompletions(model, position, wordInfo);
+		if (!values) {
+			const versionId = model.getVersionId();
+			values = this._worker(resource).then(worker => {
+				const snippets = this._getSnippets();
+				const namespaces = snippets.filter(snippet => !!snippet.namespace).map(snippet => snippet.namespace);
+				return Promise.join<any>([
+					worker.getCompletionsAtPosition(resource.toString(), offset),
+					worker.isStatementPosition(resource.toString(), offset),
+					worker.getCallSnippetMode(resource.toString(), offset),
+					isNamespace ? Promise.as([]) : worker.getAutoImportCompletions(resource.toString(), offset, wordInfo.word),
+					namespaces.length ? worker.getAvailableNamespaces(resource.toString(), offset, namespaces) : Promise.as([])
+				]).then(values => {
+					values = values.concat([snippets]);
+					if (model.getVersionId() === versionId) {
+						this._setCachedCompletions(model, position, wordInfo, values);
+					}
+					return values;
+				});
+			});
+		}
+
+		// the index only returns the best matches, those of a shorter word can miss the ones of this word
+		const indexedSymbols = this._worker(resource).then(worker => worker.getIndexedSymbols(wordInfo.word));
+
+		return wireCancellationToken(token, Promise.join<any>([values, indexedSymbols]).then(([values, navigation]: [any[], ts.NavigateToItem[]]) => {
+			if (!values) {
+				return;
+			}
+			let info: ts.CompletionInfo = values[0];
+			let isStatement: boolean = values[1];
+			let callSnippetMode: CallSnippetMode = values[2];
+			let autoImports: IAutoImport[] = values[3];
+			let namespaces: string[] = values[4];
+			let snippets: TypescriptSnippet[] = values[5];
+			if (!info) {
+				return;
+			}
+			// the whole word is replaced when completing in its middle
+			const range = wordAfter ? new monaco.Range(position.lineNumber, wordUnderCursor.startColumn, position.lineNumber, wordUnderCursor.endColumn) : undefined;
+			let suggestions: MyCompletionItem[] = (<ICompletionEntry[]>info.entries)
+				.map(entry => {
+					const deprecated = entry.kindModifiers && entry.kindModifiers.split(',').indexOf('deprecated') !== -1;
+					return {
+						uri: resource,
+						position: position,
+						label: deprecated ? `${entry.name} (deprecated)` : entry.name,
+						name: entry.name,
+						sortText: entry.sortText,
+						filterText: entry.name,
+						insertText: entry.name,
+						range: range,
+						kind: SuggestAdapter.convertKind(entry.kind),
+						detail: entry.detail,
+						containerName: entry.containerName,
+						callSnippetMode: callSnippetMode,
+						deprecated: deprecated,
+						declaration: entry.declaration
+					};
+				});
+			suggestions = suggestions.concat(navigation
+				.filter(item => (item.kind == Kind.function && item.kindModifiers != "" || item.kind == Kind.module && !!item.containerName)
+					&& (isNamespace ? item.containerName != prevWordInfo.word : true))
+				.map(entry => {
 					let label = entry.containerName ? entry.containerName + '.' + entry.name : entry.name;
-					let result: MyCompletionItem = {
+					return {
 						uri: resource,
 						position: position,
 						label: label,
@@ -285,83 +432,201 @@ export class SuggestAdapter extends Adapter implements monaco.languages.Completi
 						sortText: entry.name,
 						filterText: (isNamespace ? prevWordInfo.word + "." : (entry.containerName ? entry.containerName + "." : "")) + entry.name,
 						kind: SuggestAdapter.convertKind(entry.kind),
+						detail: entry.containerName,
 						containerName: entry.containerName,
 						navigation: entry,
-						skipCodeSnippet: lineContentAfter.trim() != "",
 						insertText: {
 							value: (isNamespace ? prevWordInfo.word + "." : (entry.containerName ? entry.containerName + "." : "")) + entry.name,
 						},
 						range: new monaco.Range(position.lineNumber,
 								position.column - wordInfo.word.length - (isNamespace ? prevWordInfo.word.length + 1 : 0),
 								position.lineNumber,
-								position.column)
+								position.column),
+						callSnippetMode: callSnippetMode
 					};
-					bucket.push(result);
-				}
-				let result: MyCompletionItem[] = [];
-				navigation
-					.filter(item => (item.kind == Kind.function && item.kindModifiers != "")
-						&& (isNamespace ? item.containerName != prevWordInfo.word : true))
-					.forEach(item => convert(result, item));
-				return result;
-			})
-			promises.push(promise);
-			return Promise.join(promises);
-		}).then(values => {
-			if (!values) {
-				return;
+				}));
+			if (!info.isMemberCompletion) {
+				suggestions = suggestions.concat(autoImports
+					.filter(autoImport => autoImport.name.toLowerCase().indexOf(wordInfo.word.toLowerCase()) === 0)
+					.map(autoImport => {
+						return {
+							uri: resource,
+							position: position,
+							label: autoImport.name,
+							name: autoImport.name,
+							// after the completions in scope
+							sortText: `3${autoImport.name}`,
+							detail: `Auto import from "${autoImport.moduleSpecifier}"`,
+							insertText: autoImport.name,
+							range: range,
+							kind: SuggestAdapter.convertKind(autoImport.kind),
+							callSnippetMode: callSnippetMode,
+							autoImport: autoImport
+						};
+					}));
 			}
-			let info: ts.CompletionInfo = values[0];
-			let moreinfo: MyCompletionItem[] = values[1];
-			if (!info) {
+			if (isStatement && !info.isMemberCompletion) {
+				suggestions = suggestions.concat(snippets
+					.filter(snippet => !snippet.namespace || namespaces.indexOf(snippet.namespace) !== -1)
+					.map(snippet => this._convertSnippet(snippet, resource, position)));
+			}
+			return suggestions;
+		}));
+	}
+
+	/**
+	 * Returns the completion data of an earlier request for the same word
+	 * start, when only that word changed and got longer since then.
+	 */
+	private _getCachedCompletions(model: monaco.editor.IReadOnlyModel, position: Position, wordInfo: monaco.editor.IWordAtPosition): Promise<any[]> {
+		const cache = this._completionCache;
+		if (!cache
+			|| cache.uri !== model.uri.toString()
+			|| cache.versionId !== model.getVersionId()
+			|| cache.lineNumber !== position.lineNumber
+			|| cache.startColumn !== wordInfo.startColumn
+			// the auto imports depend on the word
+			|| !cache.word && wordInfo.word
+			|| wordInfo.word.indexOf(cache.word) !== 0) {
+			return undefined;
+		}
+		return Promise.as(cache.values);
+	}
+
+	private _setCachedCompletions(model: monaco.editor.IReadOnlyModel, position: Position, wordInfo: monaco.editor.IWordAtPosition, values: any[]): void {
+		this._clearCaches();
+		const cache = this._completionCache = {
+			uri: model.uri.toString(),
+			versionId: model.getVersionId(),
+			lineNumber: position.lineNumber,
+			startColumn: wordInfo.startColumn,
+			endColumn: wordInfo.endColumn,
+			word: wordInfo.word,
+			values: values
+		};
+		// typing the word keeps the cache, any other edit can change the scope,
+		// e.g. a function declared further down is in scope as well
+		this._cacheListener = monaco.editor.getModel(model.uri).onDidChangeContent(e => {
+			const insideWord = !e.isFlush && e.changes.every(change => change.range.startLineNumber === cache.lineNumber
+				&& change.range.endLineNumber === cache.lineNumber
+				&& change.range.startColumn >= cache.startColumn
+				&& change.range.endColumn <= cache.endColumn
+				&& /^[\w$]*$/.test(change.text));
+			if (!insideWord) {
+				this._clearCaches();
 				return;
 			}
-			let suggestions: MyCompletionItem[] = info.entries
-				.map(entry => {
-					return {
-						uri: resource,
-						position: position,
-						label: entry.name,
-						name: entry.name,
-						sortText: entry.sortText,
-						kind: SuggestAdapter.convertKind(entry.kind),
-						skipCodeSnippet: lineContentAfter.trim() != ""
-					};
-				});
-			if (moreinfo) {
-				suggestions = suggestions.concat(moreinfo);
+			for (let change of e.changes) {
+				cache.endColumn += change.text.length - (change.range.endColumn - change.range.startColumn);
 			}
-			return suggestions;
+			cache.versionId = e.versionId;
+		});
+	}
+
+	private _clearCaches(): void {
+		if (this._cacheListener) {
+			this._cacheListener.dispose();
+			this._cacheListener = null;
+		}
+		this._completionCache = null;
+	}
+
+	private _getSnippets(): TypescriptSnippet[] {
+		return this.typescriptSnippets.concat(this._defaults.getSnippets().map(snippet => {
+			return {
+				prefix: snippet.prefix,
+				body: Array.isArray(snippet.body) ? snippet.body.join('\n') : snippet.body,
+				description: snippet.description,
+				namespace: snippet.namespace
+			};
 		}));
 	}
 
+	private _convertSnippet(snippet: TypescriptSnippet, resource: Uri, position: Position): MyCompletionItem {
+		return {
+			uri: resource,
+			position: position,
+			label: snippet.prefix,
+			name: snippet.prefix,
+			// sorts after the weighted completions of the worker
+			sortText: `0${snippet.prefix}`,
+			kind: monaco.languages.CompletionItemKind.Snippet,
+			documentation: snippet.description,
+			insertText: {
+				value: snippet.body
+			},
+			snippet: snippet
+		};
+	}
+
 	resolveCompletionItem(item: monaco.languages.CompletionItem, token: CancellationToken): Thenable<monaco.languages.CompletionItem> {
 		let myItem = <MyCompletionItem>item;
 		const resource = myItem.uri;
 		const position = myItem.position;
 
-		let entry: TypescriptSnippet = this.typescriptSnippets.filter(snippet => snippet.prefix == myItem.label)[0];
-		if (entry) {
-			return new Promise<monaco.languages.CompletionItem>((resolve, reject) => {
-				myItem.insertText = {
-					value: entry.body
+		// the focus moved away from the item that was resolved before
+		this._disposeAcceptListener();
+
+		if (myItem.snippet) {
+			// snippets are complete already
+			return Promise.as(myItem);
+		}
+
+		const snippetLabel = myItem.deprecated ? myItem.name : myItem.label;
+
+		// the item can be accepted before its details arrive
+		const mayInsertCall = myItem.callSnippetMode === 'full' || myItem.callSnippetMode === 'parentheses';
+		if (myItem.autoImport || mayInsertCall) {
+			this._onDidAccept(myItem, text => {
+				if (myItem.autoImport) {
+					this._addImport(myItem);
 				}
-				myItem.documentation = entry.description;
-				resolve(myItem);
-			})
+				if (mayInsertCall && text.indexOf(`${myItem.name}(`) !== -1) {
+					this._triggerParameterHints(resource);
+				}
+			});
 		}
 
-		return wireCancellationToken(token, this._worker(resource).then(worker => {
+		// the symbol is told by where it's declared or looked up
+		let detailsFileName: string;
+		let detailsKey: string;
+		if (myItem.navigation) {
+			detailsFileName = myItem.navigation.fileName;
+			detailsKey = `${myItem.navigation.textSpan.start}`;
+		} else if (myItem.autoImport) {
+			detailsFileName = myItem.autoImport.fileName;
+			detailsKey = `${myItem.autoImport.position}`;
+		} else if (myItem.declaration) {
+			detailsFileName = myItem.declaration.fileName;
+			detailsKey = `declaration:${myItem.declaration.pos}`;
+		} else {
+			const wordStart = new Position(position.lineNumber, monaco.editor.getModel(resource).getWordUntilPosition(position).startColumn);
+			detailsFileName = resource.toString();
+			detailsKey = `${this._positionToOffset(resource, wordStart)}`;
+		}
+		const cacheKey = `${detailsKey}:${myItem.name}:${snippetLabel}:${JSON.stringify(this._defaults.getCallbackSnippetOptions())}`;
+		const cached = this._detailsCache[detailsFileName] && this._detailsCache[detailsFileName][cacheKey];
+
+		return wireCancellationToken(token, (cached ? Promise.as(cached) : this._worker(resource).then(worker => {
 			if (myItem.navigation) {
 				return worker.getCompletionEntryDetailsAndSnippet(myItem.navigation.fileName,
 					myItem.navigation.textSpan.start,
-					myItem.name, myItem.label);
+					myItem.name, snippetLabel, undefined, this._defaults.getCallbackSnippetOptions());
+			} else if (myItem.autoImport) {
+				return worker.getCompletionEntryDetailsAndSnippet(myItem.autoImport.fileName,
+					myItem.autoImport.position,
+					myItem.name, snippetLabel, undefined, this._defaults.getCallbackSnippetOptions());
 			} else {
 				return worker.getCompletionEntryDetailsAndSnippet(resource.toString(),
 					this._positionToOffset(resource, position),
-					myItem.name, myItem.label);
+					myItem.name, snippetLabel, undefined, this._defaults.getCallbackSnippetOptions());
 			}
 		}).then(values => {
+			if (values) {
+				(this._detailsCache[detailsFileName] || (this._detailsCache[detailsFileName] = Object.create(null)))[cacheKey] = values;
+			}
+			return values;
+		})).then(values => {
 			if (!values) {
 				return myItem;
 			}
@@ -374,12 +639,87 @@ export class SuggestAdapter extends Adapter implements monaco.languages.Completi
 			myItem.position = position;
 			myItem.kind = SuggestAdapter.convertKind(details.kind);
 			myItem.detail = ts.displayPartsToString(details.displayParts);
+			if (myItem.autoImport) {
+				myItem.detail = `Auto import from "${myItem.autoImport.moduleSpecifier}"\n${myItem.detail}`;
+			}
 			myItem.documentation = ts.displayPartsToString(details.documentation);
-			myItem.insertText = !myItem.skipCodeSnippet ? {value: codeSnippet} : null;
+			if (myItem.callSnippetMode === 'full') {
+				myItem.insertText = { value: codeSnippet };
+			} else if (mayInsertCall && codeSnippet !== snippetLabel) {
+				myItem.insertText = { value: `${snippetLabel}($0)` };
+			}
 			return myItem;
 		}));
 	}
 
+	/**
+	 * Calls back when the item gets inserted. Completion items can't carry
+	 * additional edits or commands, so that is told from the next change of
+	 * the model: the insertion replaces the word in front of the position.
+	 * The callback gets the inserted text.
+	 */
+	private _onDidAccept(item: MyCompletionItem, callback: (text: string) => void): void {
+		this._disposeAcceptListener();
+		const model = monaco.editor.getModel(item.uri);
+		if (!model) {
+			return;
+		}
+		const startColumn = item.range ? item.range.startColumn : model.getWordUntilPosition(item.position).startColumn;
+		this._acceptListener = model.onDidChangeContent(e => {
+			this._disposeAcceptListener();
+			const [change] = e.changes;
+			if (e.changes.length === 1
+				&& change.range.startLineNumber === item.position.lineNumber
+				&& change.range.startColumn === startColumn
+				&& change.text.indexOf(item.name) !== -1) {
+				callback(change.text);
+			}
+		});
+	}
+
+	private _disposeAcceptListener(): void {
+		if (this._acceptListener) {
+			this._acceptListener.dispose();
+			this._acceptListener = null;
+		}
+	}
+
+	private _triggerParameterHints(resource: Uri): void {
+		const [editor] = this._editors().filter(editor => editor.isFocused() && editor.getModel() && editor.getModel().uri.toString() === resource.toString());
+		if (editor) {
+			// once the snippet has placed the cursor in the argument list
+			setTimeout(() => editor.trigger('typescript', 'editor.action.triggerParameterHints', {}), 0);
+		}
+	}
+
+	private _addImport(item: MyCompletionItem): void {
+		const resource = item.uri;
+		const model = monaco.editor.getModel(resource);
+		const versionId = model.getVersionId();
+		this._worker(resource).then(worker => {
+			return worker.getAutoImportEdits(resource.toString(), item.name, item.autoImport.moduleSpecifier);
+		}).then(edits => {
+			if (model.isDisposed()) {
+				return;
+			}
+			if (model.getVersionId() !== versionId) {
+				// the edits don't fit anymore, ask again for the current text
+				this._addImport(item);
+				return;
+			}
+			model.pushEditOperations([], edits.map(edit => {
+				return {
+					identifier: null,
+					range: Range.lift(this._textSpanToRange(resource, edit.span)),
+					text: edit.newText,
+					forceMoveMarkers: true
+				};
+			}), () => null);
+		}).done(undefined, err => {
+			console.error(err);
+		});
+	}
+
 	private static convertKind(kind: string): monaco.languages.CompletionItemKind {
 		switch (kind) {
 			case Kind.primitiveType:
@@ -387,31 +727,54 @@ export class SuggestAdapter extends Adapter implements monaco.languages.Completi
 				return monaco.languages.CompletionItemKind.Keyword;
 			case Kind.variable:
 			case Kind.localVariable:
+			case Kind.const:
+			case Kind.let:
+			case Kind.parameter:
 				return monaco.languages.CompletionItemKind.Variable;
 			case Kind.memberVariable:
 			case Kind.memberGetAccessor:
 			case Kind.memberSetAccessor:
 				return monaco.languages.CompletionItemKind.Field;
 			case Kind.function:
+			case Kind.localFunction:
+				return monaco.languages.CompletionItemKind.Function;
 			case Kind.memberFunction:
 			case Kind.constructSignature:
 			case Kind.callSignature:
 			case Kind.indexSignature:
-				return monaco.languages.CompletionItemKind.Function;
+				return monaco.languages.CompletionItemKind.Method;
+			case Kind.constructorImplementation:
+				return monaco.languages.CompletionItemKind.Constructor;
 			case Kind.enum:
 				return monaco.languages.CompletionItemKind.Enum;
+			case Kind.enumMember:
+			case Kind.string:
+				return monaco.languages.CompletionItemKind.Value;
 			case Kind.module:
+			case Kind.externalModuleName:
 				return monaco.languages.CompletionItemKind.Module;
 			case Kind.class:
+			case Kind.localClass:
 				return monaco.languages.CompletionItemKind.Class;
 			case Kind.interface:
+			case Kind.type:
+			case Kind.typeParameter:
 				return monaco.languages.CompletionItemKind.Interface;
-			case Kind.warning:
+			case Kind.alias:
+				return monaco.languages.CompletionItemKind.Reference;
+			case Kind.label:
+				return monaco.languages.CompletionItemKind.Unit;
+			case Kind.script:
 				return monaco.languages.CompletionItemKind.File;
+			case Kind.directory:
+				return monaco.languages.CompletionItemKind.Folder;
+			case Kind.warning:
+				return monaco.languages.CompletionItemKind.Text;
 		}
 
 		return monaco.languages.CompletionItemKind.Property;
 	}
+
 }
 
 export class SignatureHelpAdapter extends Adapter implements monaco.languages.SignatureHelpProvider {
@@ -436,7 +799,7 @@ export class SignatureHelpAdapter extends Adapter implements monaco.languages.Si
 
 				let signature: monaco.languages.SignatureInformation = {
 					label: '',
-					documentation: null,
+					documentation: SignatureHelpAdapter._renderDocumentation(item),
 					parameters: []
 				};
 
@@ -461,6 +824,14 @@ export class SignatureHelpAdapter extends Adapter implements monaco.languages.Si
 
 		}));
 	}
+
+	private static _renderDocumentation(item: ts.SignatureHelpItem): string {
+		// parameters are documented on their own
+		const tags = (item.tags || [])
+			.filter(tag => tag.name !== 'param')
+			.map(tag => tag.text ? `@${tag.name} ${tag.text}` : `@${tag.name}`);
+		return [ts.displayPartsToString(item.documentation)].concat(tags).filter(part => !!part).join('\n\n') || null;
+	}
 }
 
 // --- hover ------
@@ -474,7 +845,7 @@ export class QuickInfoAdapter extends Adapter implements monaco.languages.HoverP
 		return wireCancellationToken(token, this._worker(resource).then(worker => {
 			let promises: Promise<any>[] = [];
 			promises.push(worker.getQuickInfoAtPosition(resource.toString(), this._positionToOffset(resource, position)));
-			promises.push(worker.getSignatureHelpItems(resource.toString(), this._positionToOffset(resource, position)));
+			promises.push(worker.getArgumentInfoAtPosition(resource.toString(), this._positionToOffset(resource, position)));
 			if (wordInfo)
 				promises.push(worker.getCompletionEntryDetails(resource.toString(), this._positionToOffset(resource, position), wordInfo.word));
 			return Promise.join(promises);
@@ -483,44 +854,96 @@ export class QuickInfoAdapter extends Adapter implements monaco.languages.HoverP
 				return;
 			}
 			let info: ts.QuickInfo = values[0];
-			let signature: ts.SignatureHelpItems = values[1];
+			let argument: IArgumentInfo = values[1];
 			let completion: ts.CompletionEntryDetails = values[2];
 			if (info && completion) {
-				let contents = ts.displayPartsToString(completion.documentation);
-				if (!contents)
-					contents = ts.displayPartsToString(info.displayParts);
 				return {
 					range: this._textSpanToRange(resource, info.textSpan),
-					contents: [contents]
+					contents: QuickInfoAdapter._renderQuickInfo(info, completion)
 				};
-			} else if (signature && signature.items[0]) {
-				if (signature.items[0].parameters.length > 0) {
-					let activeParameter = signature.argumentIndex;
-					let contents = ts.displayPartsToString(signature.items[0].parameters[activeParameter].documentation);
-					if (!contents)
-						contents = ts.displayPartsToString(signature.items[0].parameters[activeParameter].displayParts);
-					let parameterSpan = signature.applicableSpan;
-					if (signature.argumentCount > 1) {
-						let parametersStr = model.getValue().substr(signature.applicableSpan.start, signature.applicableSpan.length);
-						let parametersSplit = parametersStr.split(',');
-						parameterSpan.start = parameterSpan.start + parametersStr.indexOf(parametersSplit[activeParameter]);
-						parameterSpan.length = parametersSplit[activeParameter].length;
-					}
-					return {
-						range: this._textSpanToRange(resource, parameterSpan),
-						contents: [contents]
-					};
+			} else if (argument) {
+				let contents: monaco.MarkedString[] = [{ language: 'typescript', value: argument.label }];
+				let documentation = ts.displayPartsToString(argument.documentation);
+				if (documentation) {
+					contents.push(documentation);
 				}
+				return {
+					range: this._textSpanToRange(resource, argument.span),
+					contents: contents
+				};
 			} else if (info) {
-				let contents = ts.displayPartsToString(info.displayParts);
 				return {
 					range: this._textSpanToRange(resource, info.textSpan),
-					contents: [contents]
+					contents: QuickInfoAdapter._renderQuickInfo(info)
 				};
 			}
 			return;
 		}));
 	}
+
+	/**
+	 * Renders the signature as a code block followed by the documentation
+	 * and the JSDoc tags as markdown.
+	 */
+	private static _renderQuickInfo(info: ts.QuickInfo, completion?: ts.CompletionEntryDetails): monaco.MarkedString[] {
+		const contents: monaco.MarkedString[] = [{
+			language: 'typescript',
+			value: ts.displayPartsToString(info.displayParts)
+		}];
+
+		let documentation = ts.displayPartsToString(info.documentation);
+		if (!documentation && completion) {
+			documentation = ts.displayPartsToString(completion.documentation);
+		}
+		if (documentation) {
+			contents.push(documentation);
+		}
+
+		let tags = info.tags || [];
+		if (tags.length === 0 && completion && completion.tags) {
+			tags = completion.tags;
+		}
+
+		const parameters: string[] = [];
+		const others: string[] = [];
+		const examples: string[] = [];
+		for (let tag of tags) {
+			const text = tag.text || '';
+			switch (tag.name) {
+				case 'param': {
+					const match = /^\s*(\S+)\s*([\s\S]*)$/.exec(text);
+					if (match) {
+						parameters.push(`| \`${match[1]}\` | ${escapeTableCell(match[2].replace(/^-\s*/, ''))} |`);
+					}
+					break;
+				}
+				case 'example':
+					examples.push(text.trim());
+					break;
+				case 'returns':
+				case 'return':
+					others.push(`*@returns* ${text}`);
+					break;
+				default:
+					others.push(`*@${tag.name}* ${text}`);
+			}
+		}
+
+		if (parameters.length > 0) {
+			contents.push(['| Parameter | Description |', '| --- | --- |'].concat(parameters).join('\n'));
+		}
+		if (others.length > 0) {
+			contents.push(others.join('\n\n'));
+		}
+		for (let example of examples) {
+			contents.push({ language: 'typescript', value: example });
+		}
+		return contents;
+	}
+}
+
+function escapeTableCell(text: string): string {
+	return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
 }
 
 // --- occurrences ------
@@ -546,10 +969,129 @@ export class OccurrencesAdapter extends Adapter implements monaco.languages.Docu
 	}
 }
 
+// --- lib files ------
+
+/**
+ * Lazily creates read-only models for extra libs and default libs so that
+ * locations inside them can be shown in an editor.
+ */
+export class LibFiles extends Adapter {
+
+	private _disposables: IDisposable[] = [];
+	private _models: { [uri: string]: monaco.editor.IModel } = Object.create(null);
+	private _readOnlyEditors: { [editorId: string]: boolean } = Object.create(null);
+
+	constructor(private _defaults: LanguageServiceDefaultsImpl, private _modeId: string,
+		editors: () => monaco.editor.ICodeEditor[],
+		worker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+
+		const onEditorAdd = (editor: monaco.editor.ICodeEditor): void => {
+			this._disposables.push(editor.onDidChangeModel(() => this._updateReadOnly(editor)));
+			this._updateReadOnly(editor);
+		};
+		editors().forEach(onEditorAdd);
+		this._disposables.push(monaco.editor.onDidCreateEditor(onEditorAdd));
+
+		this._disposables.push(this._defaults.onDidChangeExtraLib(change => {
+			const model = this._models[change.filePath];
+			if (!model) {
+				return;
+			}
+			if (typeof change.content === 'undefined') {
+				delete this._models[change.filePath];
+				model.dispose();
+			} else {
+				model.setValue(change.content);
+			}
+		}));
+	}
+
+	public dispose(): void {
+		this._disposables.forEach(d => d && d.dispose());
+		this._disposables = [];
+		for (let key in this._models) {
+			this._models[key].dispose();
+		}
+		this._models = Object.create(null);
+	}
+
+	public isLibModel(model: monaco.editor.IReadOnlyModel): boolean {
+		return !!model && model.uri.toString() in this._models;
+	}
+
+	/**
+	 * Makes sure there is a model for each file name that is a lib,
+	 * unless the host vetoes it.
+	 */
+	public ensureModels(fileNames: string[]): Promise<void> {
+		const missing = fileNames.filter((fileName, index) => {
+			return fileNames.indexOf(fileName) === index
+				&& Uri.parse(fileName).toString() === fileName
+				&& !monaco.editor.getModel(Uri.parse(fileName));
+		});
+		if (missing.length === 0) {
+			return Promise.as(undefined);
+		}
+
+		return this._worker(Uri.parse(missing[0])).then(worker => {
+			return Promise.join(missing.map(fileName => worker.getLibFileContents(fileName)));
+		}).then(contents => {
+			contents.forEach((content, i) => {
+				if (typeof content === 'string') {
+					this._createModel(missing[i], content);
+				}
+			});
+		});
+	}
+
+	private _createModel(fileName: string, content: string): void {
+		const uri = Uri.parse(fileName);
+		if (monaco.editor.getModel(uri)) {
+			return;
+		}
+
+		let language = this._modeId;
+		const hook = this._defaults.getLibModelHook();
+		if (hook) {
+			const options = hook(fileName, content);
+			if (options === false) {
+				return;
+			}
+			if (options && typeof options === 'object') {
+				content = typeof options.content === 'string' ? options.content : content;
+				language = options.language || language;
+			}
+		}
+
+		// known before creation so that listeners of onDidCreateModel can tell
+		this._models[fileName] = null;
+		this._models[fileName] = monaco.editor.createModel(content, language, uri);
+	}
+
+	private _updateReadOnly(editor: monaco.editor.ICodeEditor): void {
+		const editorId = editor.getId();
+		const isLib = this.isLibModel(editor.getModel());
+		const wasLib = editorId in this._readOnlyEditors;
+		if (isLib && !wasLib) {
+			this._readOnlyEditors[editorId] = editor.getConfiguration().readOnly;
+			editor.updateOptions({ readOnly: true });
+		} else if (!isLib && wasLib) {
+			editor.updateOptions({ readOnly: this._readOnlyEditors[editorId] });
+			delete this._readOnlyEditors[editorId];
+		}
+	}
+}
+
 // --- definition ------
 
 export class DefinitionAdapter extends Adapter {
 
+	constructor(private _libFiles: LibFiles, worker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>) {
+		super(worker);
+	}
+
 	public provideDefinition(model: monaco.editor.IReadOnlyModel, position: Position, token: CancellationToken): Thenable<monaco.languages.Definition> {
 		const resource = model.uri;
 
@@ -559,17 +1101,19 @@ export class DefinitionAdapter extends Adapter {
 			if (!entries) {
 				return;
 			}
-			const result: monaco.languages.Location[] = [];
-			for (let entry of entries) {
-				const uri = Uri.parse(entry.fileName);
-				if (monaco.editor.getModel(uri)) {
-					result.push({
-						uri: uri,
-						range: this._textSpanToRange(uri, entry.textSpan)
-					});
+			return this._libFiles.ensureModels(entries.map(entry => entry.fileName)).then(() => {
+				const result: monaco.languages.Location[] = [];
+				for (let entry of entries) {
+					const uri = Uri.parse(entry.fileName);
+					if (monaco.editor.getModel(uri)) {
+						result.push({
+							uri: uri,
+							range: this._textSpanToRange(uri, entry.textSpan)
+						});
+					}
 				}
-			}
-			return result;
+				return result;
+			});
 		}));
 	}
 }
@@ -578,6 +1122,10 @@ export class DefinitionAdapter extends Adapter {
 
 export class ReferenceAdapter extends Adapter implements monaco.languages.ReferenceProvider {
 
+	constructor(private _libFiles: LibFiles, worker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>) {
+		super(worker);
+	}
+
 	provideReferences(model: monaco.editor.IReadOnlyModel, position: Position, context: monaco.languages.ReferenceContext, token: CancellationToken): Thenable<monaco.languages.Location[]> {
 		const resource = model.uri;
 
@@ -587,17 +1135,55 @@ export class ReferenceAdapter extends Adapter implements monaco.languages.Refere
 			if (!entries) {
 				return;
 			}
-			const result: monaco.languages.Location[] = [];
-			for (let entry of entries) {
-				const uri = Uri.parse(entry.fileName);
-				if (monaco.editor.getModel(uri)) {
-					result.push({
-						uri: uri,
-						range: this._textSpanToRange(uri, entry.textSpan)
-					});
+			return this._libFiles.ensureModels(entries.map(entry => entry.fileName)).then(() => {
+				const result: monaco.languages.Location[] = [];
+				for (let entry of entries) {
+					const uri = Uri.parse(entry.fileName);
+					if (monaco.editor.getModel(uri)) {
+						result.push({
+							uri: uri,
+							range: this._textSpanToRange(uri, entry.textSpan)
+						});
+					}
 				}
-			}
-			return result;
+				return result;
+			});
+		}));
+	}
+}
+
+// --- rename ------
+
+export class RenameAdapter extends Adapter implements monaco.languages.RenameProvider {
+
+	provideRenameEdits(model: monaco.editor.IReadOnlyModel, position: Position, newName: string, token: CancellationToken): Thenable<monaco.languages.WorkspaceEdit> {
+		const resource = model.uri;
+		const fileName = resource.toString();
+		const offset = this._positionToOffset(resource, position);
+
+		return wireCancellationToken(token, this._worker(resource).then(worker => {
+			return worker.getRenameInfo(fileName, offset).then<monaco.languages.WorkspaceEdit>(info => {
+				if (!info || !info.canRename) {
+					return { edits: [], rejectReason: info ? info.localizedErrorMessage : undefined };
+				}
+				return worker.findRenameLocations(fileName, offset, false, false).then(locations => {
+					if (!locations) {
+						return;
+					}
+					const edits: monaco.languages.IResourceEdit[] = [];
+					for (let location of locations) {
+						const uri = Uri.parse(location.fileName);
+						if (monaco.editor.getModel(uri)) {
+							edits.push({
+								resource: uri,
+								range: this._textSpanToRange(uri, location.textSpan),
+								newText: newName
+							});
+						}
+					}
+					return { edits };
+				});
+			});
 		}));
 	}
 }
@@ -641,19 +1227,219 @@ export class OutlineAdapter extends Adapter implements monaco.languages.Document
 	}
 }
 
+// --- workspace symbols ------
+
+export class WorkspaceSymbolAdapter extends Adapter {
+
+	constructor(private _selector: string, private _libFiles: LibFiles, worker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>) {
+		super(worker);
+	}
+
+	public provideWorkspaceSymbols(query: string, options: monaco.languages.typescript.WorkspaceSymbolOptions = {}): Promise<monaco.languages.SymbolInformation[]> {
+		const resources = monaco.editor.getModels()
+			.filter(model => model.getModeId() === this._selector && !this._libFiles.isLibModel(model))
+			.map(model => model.uri);
+		if (resources.length === 0) {
+			return Promise.as([]);
+		}
+		const maxResultCount = typeof options.maxResultCount === 'number' ? options.maxResultCount : 100;
+
+		return this._worker(resources[0], ...resources.slice(1)).then(worker => {
+			return worker.getWorkspaceSymbols(query, maxResultCount, !!options.includeLibs);
+		}).then(items => {
+			return this._libFiles.ensureModels(items.map(item => item.fileName)).then(() => {
+				const result: monaco.languages.SymbolInformation[] = [];
+				for (let item of items) {
+					const uri = Uri.parse(item.fileName);
+					if (monaco.editor.getModel(uri)) {
+						result.push({
+							name: item.name,
+							containerName: item.containerName,
+							kind: outlineTypeTable[item.kind] || monaco.languages.SymbolKind.Variable,
+							location: {
+								uri: uri,
+								range: this._textSpanToRange(uri, item.textSpan)
+							}
+						});
+					}
+				}
+				return result;
+			});
+		});
+	}
+}
+
+// --- semantic highlighting ------
+
+/**
+ * The inline class names given to identifiers that the lexical tokens can't tell apart.
+ */
+const semanticClassNames: { [type: number]: string } = Object.create(null);
+semanticClassNames[ts.ClassificationType.className] = 'ts-semantic-class';
+semanticClassNames[ts.ClassificationType.enumName] = 'ts-semantic-enum';
+semanticClassNames[ts.ClassificationType.interfaceName] = 'ts-semantic-interface';
+semanticClassNames[ts.ClassificationType.moduleName] = 'ts-semantic-namespace';
+semanticClassNames[ts.ClassificationType.typeParameterName] = 'ts-semantic-type-parameter';
+semanticClassNames[ts.ClassificationType.typeAliasName] = 'ts-semantic-type-alias';
+semanticClassNames[ts.ClassificationType.parameterName] = 'ts-semantic-parameter';
+
+/**
+ * The colors of the default themes for these classes. The styles go first
+ * into the head, so that hosts can restyle them with rules of their own.
+ */
+const semanticStyles = [
+	['vs', '#267f99', '#001080'],
+	['vs-dark', '#4ec9b0', '#9cdcfe'],
+	['hc-black', '#4ec9b0', '#9cdcfe']
+].map(([theme, typeColor, parameterColor]) => {
+	const types = ['class', 'enum', 'interface', 'namespace', 'type-parameter', 'type-alias']
+		.map(type => `.monaco-editor.${theme} .ts-semantic-${type}`);
+	return `${types.join(', ')} { color: ${typeColor}; }\n`
+		+ `.monaco-editor.${theme} .ts-semantic-parameter { color: ${parameterColor}; }\n`;
+}).join('');
+
+let semanticStyleElement: HTMLStyleElement;
+
+function ensureSemanticStyles(): void {
+	if (semanticStyleElement || typeof document === 'undefined') {
+		return;
+	}
+	semanticStyleElement = document.createElement('style');
+	semanticStyleElement.type = 'text/css';
+	semanticStyleElement.textContent = semanticStyles;
+	document.head.insertBefore(semanticStyleElement, document.head.firstChild);
+}
+
+export class SemanticHighlightAdapter extends Adapter {
+
+	private _disposables: IDisposable[] = [];
+	private _decorations: { [editorId: string]: string[] } = Object.create(null);
+
+	constructor(private _selector: string, editors: () => monaco.editor.ICodeEditor[],
+		worker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+		ensureSemanticStyles();
+
+		const onEditorAdd = (editor: monaco.editor.ICodeEditor): void => {
+			let handle: number;
+			const update = () => {
+				clearTimeout(handle);
+				handle = setTimeout(() => this._doHighlight(editor), 200);
+			};
+			const listeners = [
+				editor.onDidChangeModel(update),
+				editor.onDidChangeModelLanguage(update),
+				editor.onDidChangeModelContent(update),
+				editor.onDidScrollChange(update)
+			];
+			const disposable = {
+				dispose: () => {
+					clearTimeout(handle);
+					listeners.forEach(listener => listener.dispose());
+					delete this._decorations[editor.getId()];
+				}
+			};
+			listeners.push(editor.onDidDispose(() => {
+				disposable.dispose();
+				const index = this._disposables.indexOf(disposable);
+				if (index !== -1) {
+					this._disposables.splice(index, 1);
+				}
+			}));
+			this._disposables.push(disposable);
+			update();
+		};
+		editors().forEach(onEditorAdd);
+		this._disposables.push(monaco.editor.onDidCreateEditor(onEditorAdd));
+	}
+
+	public dispose(): void {
+		this._disposables.forEach(d => d && d.dispose());
+		this._disposables = [];
+	}
+
+	private _doHighlight(editor: monaco.editor.ICodeEditor): void {
+		const editorId = editor.getId();
+		const model = editor.getModel();
+		if (!model || model.getModeId() !== this._selector) {
+			this._decorations[editorId] = editor.deltaDecorations(this._decorations[editorId] || [], []);
+			return;
+		}
+
+		// only the visible lines are classified, scrolling asks for the next ones
+		const resource = model.uri;
+		const versionId = model.getVersionId();
+		const { startLineNumber, endLineNumber } = SemanticHighlightAdapter._getVisibleLines(editor);
+		const start = model.getOffsetAt({ lineNumber: startLineNumber, column: 1 });
+		const end = model.getOffsetAt({ lineNumber: endLineNumber, column: model.getLineMaxColumn(endLineNumber) });
+
+		this._worker(resource).then(worker => {
+			return worker.getEncodedSemanticClassifications(resource.toString(), start, end - start);
+		}).then(classifications => {
+			if (!classifications || editor.getModel() !== model || model.getVersionId() !== versionId) {
+				// outdated
+				return;
+			}
+			const decorations: monaco.editor.IModelDeltaDecoration[] = [];
+			const spans = classifications.spans;
+			for (let i = 0; i < spans.length; i += 3) {
+				const className = semanticClassNames[spans[i + 2]];
+				if (className) {
+					decorations.push({
+						range: Range.lift(this._textSpanToRange(resource, { start: spans[i], length: spans[i + 1] })),
+						options: { inlineClassName: className }
+					});
+				}
+			}
+			this._decorations[editorId] = editor.deltaDecorations(this._decorations[editorId] || [], decorations);
+		}).done(undefined, err => {
+			console.error(err);
+		});
+	}
+
+	private static _getVisibleLines(editor: monaco.editor.ICodeEditor): { startLineNumber: number; endLineNumber: number } {
+		const lineCount = editor.getModel().getLineCount();
+		const scrollTop = editor.getScrollTop();
+
+		// the last line that starts at or above the given vertical offset
+		const lineAt = (top: number): number => {
+			let low = 1, high = lineCount;
+			while (low < high) {
+				const mid = Math.ceil((low + high) / 2);
+				if (editor.getTopForLineNumber(mid) <= top) {
+					low = mid;
+				} else {
+					high = mid - 1;
+				}
+			}
+			return low;
+		};
+
+		return {
+			startLineNumber: lineAt(scrollTop),
+			endLineNumber: lineAt(scrollTop + editor.getLayoutInfo().height)
+		};
+	}
+}
+
 export class Kind {
 	public static unknown: string = '';
 	public static keyword: string = 'keyword';
 	public static script: string = 'script';
+	public static directory: string = 'directory';
+	public static externalModuleName: string = 'external module name';
 	public static module: string = 'module';
 	public static class: string = 'class';
 	public static interface: string = 'interface';
 	public static type: string = 'type';
 	public static enum: string = 'enum';
+	public static enumMember: string = 'enum member';
 	public static variable: string = 'var';
 	public static localVariable: string = 'local var';
 	public static function: string = 'function';
 	public static localFunction: string = 'local function';
+	public static localClass: string = 'local class';
 	public static memberFunction: string = 'method';
 	public static memberGetAccessor: string = 'getter';
 	public static memberSetAccessor: string = 'setter';
@@ -669,6 +1455,7 @@ export class Kind {
 	public static alias: string = 'alias';
 	public static const: string = 'const';
 	public static let: string = 'let';
+	public static string: string = 'string';
 	public static warning: string = 'warning';
 }
 
@@ -758,6 +1545,148 @@ export class FormatOnTypeAdapter extends FormatHelper implements monaco.language
 	}
 }
 
+// --- code actions ------
+
+interface IFixCommands {
+	versionId: number;
+	commandIds: { [fix: string]: string };
+	disposables: IDisposable[];
+}
+
+let lastFixId = 0;
+
+export class CodeActionAdapter extends FormatHelper implements monaco.languages.CodeActionProvider {
+
+	private _fixCommands: { [uri: string]: IFixCommands } = Object.create(null);
+
+	constructor(private _editors: () => monaco.editor.ICodeEditor[],
+		worker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+	}
+
+	provideCodeActions(model: monaco.editor.IReadOnlyModel, range: Range, context: monaco.languages.CodeActionContext, token: CancellationToken): Thenable<monaco.languages.Command[]> {
+		const resource = model.uri;
+		const errorCodes = context.markers
+			.map(marker => /^TS(\d+)$/.exec(marker.code))
+			.filter(match => !!match)
+			.map(match => parseInt(match[1], 10));
+
+		const [editor] = this._editors().filter(editor => typeof (<monaco.editor.IStandaloneCodeEditor>editor).addAction === 'function');
+		if (errorCodes.length === 0 || !editor) {
+			return Promise.as([]);
+		}
+		const versionId = model.getVersionId();
+
+		const { tabSize, insertSpaces } = (<monaco.editor.IModel>model).getOptions();
+
+		return wireCancellationToken(token, this._worker(resource).then(worker => {
+			return worker.getCodeFixesAtPosition(resource.toString(),
+				this._positionToOffset(resource, { lineNumber: range.startLineNumber, column: range.startColumn }),
+				this._positionToOffset(resource, { lineNumber: range.endLineNumber, column: range.endColumn }),
+				errorCodes, FormatHelper._convertOptions({ tabSize, insertSpaces }));
+		}).then(fixes => {
+			if (!fixes || model.isDisposed() || model.getVersionId() !== versionId) {
+				return;
+			}
+			return fixes.map(fix => {
+				return <monaco.languages.Command>{
+					id: this._getCommandId(<monaco.editor.IStandaloneCodeEditor>editor, model, fix),
+					title: fix.description
+				};
+			});
+		}));
+	}
+
+	private _convertFileTextChanges(changes: ts.FileTextChanges[]): monaco.languages.IResourceEdit[] {
+		const edits: monaco.languages.IResourceEdit[] = [];
+		for (let change of changes) {
+			const uri = Uri.parse(change.fileName);
+			if (!monaco.editor.getModel(uri)) {
+				continue;
+			}
+			for (let textChange of change.textChanges) {
+				edits.push({
+					resource: uri,
+					range: this._textSpanToRange(uri, textChange.span),
+					newText: textChange.newText
+				});
+			}
+		}
+		return edits;
+	}
+
+	/**
+	 * Code actions can only run commands, and the commands added to a standalone
+	 * editor are only known to that editor, except for its actions. So each fix
+	 * becomes an action that runs from any editor, hidden from the command palette
+	 * and removed once the model changes.
+	 */
+	private _getCommandId(editor: monaco.editor.IStandaloneCodeEditor, model: monaco.editor.IReadOnlyModel, fix: ts.CodeAction): string {
+		const key = model.uri.toString();
+		let commands = this._fixCommands[key];
+		if (!commands || commands.versionId !== model.getVersionId()) {
+			this._disposeFixCommands(key);
+			const fixModel = monaco.editor.getModel(model.uri);
+			commands = this._fixCommands[key] = {
+				versionId: model.getVersionId(),
+				commandIds: Object.create(null),
+				disposables: [
+					fixModel.onDidChangeContent(() => this._disposeFixCommands(key)),
+					fixModel.onWillDispose(() => this._disposeFixCommands(key))
+				]
+			};
+		}
+
+		// the same fix is asked for again when the cursor moves
+		const fixKey = `${fix.description}\n${JSON.stringify(fix.changes)}`;
+		if (!commands.commandIds[fixKey]) {
+			const id = `typescript.codeFix${++lastFixId}`;
+			const edits = this._convertFileTextChanges(fix.changes);
+			commands.disposables.push(editor.addAction({
+				id: id,
+				label: fix.description,
+				// a context key that is never set keeps the action out of the command palette
+				precondition: 'typescript.codeFix',
+				run: () => this._applyEdits(edits)
+			}));
+			// the command of an action is told apart by the editor it was added to
+			commands.commandIds[fixKey] = `${editor.getId()}:${id}`;
+		}
+		return commands.commandIds[fixKey];
+	}
+
+	private _disposeFixCommands(key: string): void {
+		const commands = this._fixCommands[key];
+		if (commands) {
+			commands.disposables.forEach(d => d.dispose());
+			delete this._fixCommands[key];
+		}
+	}
+
+	private _applyEdits(edits: monaco.languages.IResourceEdit[]): void {
+		const operations: { [uri: string]: monaco.editor.IIdentifiedSingleEditOperation[] } = Object.create(null);
+		for (let edit of edits) {
+			const key = edit.resource.toString();
+			(operations[key] || (operations[key] = [])).push({
+				identifier: null,
+				range: Range.lift(edit.range),
+				text: edit.newText,
+				forceMoveMarkers: true
+			});
+		}
+		for (let key in operations) {
+			const model = monaco.editor.getModel(Uri.parse(key));
+			if (model) {
+				// a fix is undone on its own
+				model.pushStackElement();
+				model.pushEditOperations([], operations[key], () => null);
+				model.pushStackElement();
+			}
+		}
+	}
+}
+
 /**
  * Hook a cancellation token to a WinJS Promise
  */
@@ -16,18 +16,21 @@ import IDisposable = monaco.IDisposable;
 
 let javaScriptWorker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>;
 let typeScriptWorker: (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker>;
+const workspaceSymbols: { [modeId: string]: languageFeatures.WorkspaceSymbolAdapter } = Object.create(null);
 
-export function setupTypeScript(defaults:LanguageServiceDefaultsImpl): void {
+export function setupTypeScript(defaults:LanguageServiceDefaultsImpl, editors: () => monaco.editor.ICodeEditor[]): void {
 	typeScriptWorker = setupMode(
 		defaults,
+		editors,
 		'typescript',
 		Language.TypeScript
 	);
 }
 
-export function setupJavaScript(defaults:LanguageServiceDefaultsImpl): void {
+export function setupJavaScript(defaults:LanguageServiceDefaultsImpl, editors: () => monaco.editor.ICodeEditor[]): void {
 	javaScriptWorker = setupMode(
 		defaults,
+		editors,
 		'javascript',
 		Language.EcmaScript5
 	);
@@ -53,7 +56,17 @@ export function getTypeScriptWorker(): Promise<(first: Uri, ...more: Uri[]) => P
 	});
 }
 
-function setupMode(defaults:LanguageServiceDefaultsImpl, modeId:string, language:Language): (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker> {
+export function searchWorkspaceSymbols(modeId: string, query: string, options?: monaco.languages.typescript.WorkspaceSymbolOptions): Promise<monaco.languages.SymbolInformation[]> {
+	return new Promise((resolve, reject) => {
+		const adapter = workspaceSymbols[modeId];
+		if (!adapter) {
+			return reject(`${modeId} not registered!`);
+		}
+		adapter.provideWorkspaceSymbols(query, options).then(resolve, reject);
+	});
+}
+
+function setupMode(defaults:LanguageServiceDefaultsImpl, editors: () => monaco.editor.ICodeEditor[], modeId:string, language:Language): (first: Uri, ...more: Uri[]) => Promise<TypeScriptWorker> {
 
 	let disposables: IDisposable[] = [];
 
@@ -64,16 +77,23 @@ function setupMode(defaults:LanguageServiceDefaultsImpl, modeId:string, language
 		return client.getLanguageServiceWorker(...[first].concat(more));
 	};
 
-	disposables.push(monaco.languages.registerCompletionItemProvider(modeId, new languageFeatures.SuggestAdapter(worker)));
+	const libFiles = new languageFeatures.LibFiles(defaults, modeId, editors, worker);
+	disposables.push(libFiles);
+
+	disposables.push(monaco.languages.registerCompletionItemProvider(modeId, new languageFeatures.SuggestAdapter(defaults, editors, worker)));
 	disposables.push(monaco.languages.registerSignatureHelpProvider(modeId, new languageFeatures.SignatureHelpAdapter(worker)));
 	disposables.push(monaco.languages.registerHoverProvider(modeId, new languageFeatures.QuickInfoAdapter(worker)));
 	disposables.push(monaco.languages.registerDocumentHighlightProvider(modeId, new languageFeatures.OccurrencesAdapter(worker)));
-	disposables.push(monaco.languages.registerDefinitionProvider(modeId, new languageFeatures.DefinitionAdapter(worker)));
-	disposables.push(monaco.languages.registerReferenceProvider(modeId, new languageFeatures.ReferenceAdapter(worker)));
+	disposables.push(monaco.languages.registerDefinitionProvider(modeId, new languageFeatures.DefinitionAdapter(libFiles, worker)));
+	disposables.push(monaco.languages.registerReferenceProvider(modeId, new languageFeatures.ReferenceAdapter(libFiles, worker)));
+	disposables.push(monaco.languages.registerRenameProvider(modeId, new languageFeatures.RenameAdapter(worker)));
 	disposables.push(monaco.languages.registerDocumentSymbolProvider(modeId, new languageFeatures.OutlineAdapter(worker)));
 	disposables.push(monaco.languages.registerDocumentRangeFormattingEditProvider(modeId, new languageFeatures.FormatAdapter(worker)));
 	disposables.push(monaco.languages.registerOnTypeFormattingEditProvider(modeId, new languageFeatures.FormatOnTypeAdapter(worker)));
-	disposables.push(new languageFeatures.DiagnostcsAdapter(defaults, modeId, worker));
+	disposables.push(monaco.languages.registerCodeActionProvider(modeId, new languageFeatures.CodeActionAdapter(editors, worker)));
+	disposables.push(new languageFeatures.SemanticHighlightAdapter(modeId, editors, worker));
+	workspaceSymbols[modeId] = new languageFeatures.WorkspaceSymbolAdapter(modeId, libFiles, worker);
+	disposables.push(new languageFeatures.DiagnostcsAdapter(defaults, modeId, editors, libFiles, worker));
 	disposables.push(monaco.languages.setLanguageConfiguration(modeId, richEditConfiguration));
 	disposables.push(monaco.languages.setTokensProvider(modeId, createTokenizationSupport(language)));
 
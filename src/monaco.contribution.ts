@@ -14,26 +14,71 @@ declare var require: <T>(moduleId: [string], callback: (module: T) => void) => v
 
 // --- TypeScript configuration and defaults ---------
 
+export interface IExtraLibChange {
+	filePath: string;
+	/**
+	 * The new content of the extra lib, `undefined` when it was removed.
+	 */
+	content: string;
+}
+
 export class LanguageServiceDefaultsImpl implements monaco.languages.typescript.LanguageServiceDefaults {
 
 	private _onDidChange = new Emitter<monaco.languages.typescript.LanguageServiceDefaults>();
+	private _onDidChangeExtraLib = new Emitter<IExtraLibChange>();
+	private _onDidChangeCompilerOptions = new Emitter<void>();
+	private _onDidChangeCompletionFilter = new Emitter<void>();
+	private _onDidChangeParameterDefaults = new Emitter<void>();
 	private _extraLibs: { [path: string]: string };
 	private _workerMaxIdleTime: number;
 	private _eagerModelSync: boolean;
 	private _compilerOptions: monaco.languages.typescript.CompilerOptions;
 	private _diagnosticsOptions: monaco.languages.typescript.DiagnosticsOptions;
-
-	constructor(compilerOptions: monaco.languages.typescript.CompilerOptions, diagnosticsOptions: monaco.languages.typescript.DiagnosticsOptions) {
+	private _diagnosticSeverityOverrides: { [code: number]: monaco.Severity };
+	private _completionFilter: monaco.languages.typescript.CompletionFilter;
+	private _snippets: monaco.languages.typescript.Snippet[];
+	private _parameterDefaults: { [key: string]: string };
+	private _callbackSnippetOptions: monaco.languages.typescript.CallbackSnippetOptions;
+	private _libModelHook: (fileName: string, content: string) => boolean | monaco.languages.typescript.LibModelOptions;
+
+	constructor(compilerOptions: monaco.languages.typescript.CompilerOptions, diagnosticsOptions: monaco.languages.typescript.DiagnosticsOptions,
+		completionFilter: monaco.languages.typescript.CompletionFilter, parameterDefaults: { [key: string]: string },
+		callbackSnippetOptions: monaco.languages.typescript.CallbackSnippetOptions) {
 		this._extraLibs = Object.create(null);
+		this._diagnosticSeverityOverrides = Object.create(null);
+		this._snippets = [];
 		this._workerMaxIdleTime = 2 * 60 * 1000;
 		this.setCompilerOptions(compilerOptions);
 		this.setDiagnosticsOptions(diagnosticsOptions);
+		this.setCompletionFilter(completionFilter);
+		this.setParameterDefaults(parameterDefaults);
+		this.setCallbackSnippetOptions(callbackSnippetOptions);
 	}
 
 	get onDidChange(): IEvent<monaco.languages.typescript.LanguageServiceDefaults> {
 		return this._onDidChange.event;
 	}
 
+	get onDidChangeExtraLib(): IEvent<IExtraLibChange> {
+		return this._onDidChangeExtraLib.event;
+	}
+
+	/**
+	 * Fires on every call to `setCompilerOptions`, also when
+	 * the options object was changed in place and set again.
+	 */
+	get onDidChangeCompilerOptions(): IEvent<void> {
+		return this._onDidChangeCompilerOptions.event;
+	}
+
+	get onDidChangeCompletionFilter(): IEvent<void> {
+		return this._onDidChangeCompletionFilter.event;
+	}
+
+	get onDidChangeParameterDefaults(): IEvent<void> {
+		return this._onDidChangeParameterDefaults.event;
+	}
+
 	getExtraLibs(): { [path: string]: string; } {
 		const result = Object.create(null);
 		for (var key in this._extraLibs) {
@@ -51,24 +96,34 @@ export class LanguageServiceDefaultsImpl implements monaco.languages.typescript.
 			throw new Error(`${filePath} already a extra lib`);
 		}
 
-		this._extraLibs[filePath] = content;
-		this._onDidChange.fire(this);
+		this.updateExtraLib(content, filePath);
 
 		return {
-			dispose: () => {
-				if (delete this._extraLibs[filePath]) {
-					this._onDidChange.fire(this);
-				}
-			}
+			dispose: () => this.removeExtraLib(filePath)
 		};
 	}
 
+	updateExtraLib(content: string, filePath: string): void {
+		this._extraLibs[filePath] = content;
+		this._onDidChangeExtraLib.fire({ filePath, content });
+		this._onDidChange.fire(this);
+	}
+
+	removeExtraLib(filePath: string): void {
+		if (filePath in this._extraLibs) {
+			delete this._extraLibs[filePath];
+			this._onDidChangeExtraLib.fire({ filePath, content: undefined });
+			this._onDidChange.fire(this);
+		}
+	}
+
 	getCompilerOptions(): monaco.languages.typescript.CompilerOptions {
 		return this._compilerOptions;
 	}
 
 	setCompilerOptions(options: monaco.languages.typescript.CompilerOptions): void {
 		this._compilerOptions = options || Object.create(null);
+		this._onDidChangeCompilerOptions.fire();
 		this._onDidChange.fire(this);
 	}
 
@@ -81,6 +136,75 @@ export class LanguageServiceDefaultsImpl implements monaco.languages.typescript.
 		this._onDidChange.fire(this);
 	}
 
+	getDiagnosticSeverityOverrides(): { [code: number]: monaco.Severity } {
+		return this._diagnosticSeverityOverrides;
+	}
+
+	setDiagnosticSeverityOverrides(overrides: { [code: number]: monaco.Severity }): void {
+		this._diagnosticSeverityOverrides = overrides || Object.create(null);
+		this._onDidChange.fire(this);
+	}
+
+	getCompletionFilter(): monaco.languages.typescript.CompletionFilter {
+		return this._completionFilter;
+	}
+
+	setCompletionFilter(filter: monaco.languages.typescript.CompletionFilter): void {
+		this._completionFilter = filter || Object.create(null);
+		this._onDidChangeCompletionFilter.fire();
+		this._onDidChange.fire(this);
+	}
+
+	getParameterDefaults(): { [key: string]: string } {
+		return this._parameterDefaults;
+	}
+
+	setParameterDefaults(defaults: { [key: string]: string }): void {
+		this._parameterDefaults = defaults || Object.create(null);
+		this._onDidChangeParameterDefaults.fire();
+		this._onDidChange.fire(this);
+	}
+
+	getCallbackSnippetOptions(): monaco.languages.typescript.CallbackSnippetOptions {
+		return this._callbackSnippetOptions;
+	}
+
+	setCallbackSnippetOptions(options: monaco.languages.typescript.CallbackSnippetOptions): void {
+		// doesn't fire an event since the options
+		// are sent with every snippet request
+		this._callbackSnippetOptions = options || Object.create(null);
+	}
+
+	getSnippets(): monaco.languages.typescript.Snippet[] {
+		return this._snippets.slice();
+	}
+
+	addSnippet(snippet: monaco.languages.typescript.Snippet): IDisposable {
+		return this.registerSnippets([snippet]);
+	}
+
+	registerSnippets(snippets: monaco.languages.typescript.Snippet[]): IDisposable {
+		// doesn't fire an event since snippets
+		// are read on every completion request
+		snippets = snippets.slice();
+		this._snippets.push(...snippets);
+		return {
+			dispose: () => {
+				this._snippets = this._snippets.filter(snippet => snippets.indexOf(snippet) === -1);
+			}
+		};
+	}
+
+	getLibModelHook(): (fileName: string, content: string) => boolean | monaco.languages.typescript.LibModelOptions {
+		return this._libModelHook;
+	}
+
+	setLibModelHook(hook: (fileName: string, content: string) => boolean | monaco.languages.typescript.LibModelOptions): void {
+		// doesn't fire an event since only
+		// future lib models are affected
+		this._libModelHook = hook;
+	}
+
 	setMaximunWorkerIdleTime(value: number): void {
 		// doesn't fire an event since no
 		// worker restart is required here
@@ -149,13 +273,80 @@ enum ModuleResolutionKind {
 
 // --- END enums copied from typescript to prevent loading the entire typescriptServices ---
 
+const defaultCompletionFilter: monaco.languages.typescript.CompletionFilter = {
+	names: {
+		// Boxed types
+		"Boolean": "interface",
+		"Number": "interface",
+		"String": "interface",
+		"Function": "interface",
+		"Object": "interface",
+
+		// Unsupported types
+		"RegExp": "interface",
+		"IArguments": "interface",
+
+		// C++ types
+		"int16": "type",
+		"int32": "type",
+		"int8": "type",
+		"uint16": "type",
+		"uint32": "type",
+		"uint8": "type",
+
+		// Unsupported keywords
+		"instanceof": "keyword",
+		"typeof": "keyword",
+		"never": "keyword",
+		"debugger": "keyword",
+		"declare": "keyword",
+		"export": "keyword",
+		"global": "keyword",
+		"keyof": "keyword",
+		"module": "keyword",
+		"var": "keyword",
+		"in": "keyword",
+		"from": "keyword",
+		"import": "keyword",
+		"delete": "keyword",
+		"with": "keyword",
+		"await": "keyword",
+		"try": "keyword",
+		"catch": "keyword",
+		"finally": "keyword",
+		"yield": "keyword",
+		"as": "keyword",
+		"async": "keyword",
+		"abstract": "keyword",
+		"any": "keyword",
+		"undefined": "keyword",
+		"throw": "keyword",
+		"symbol": "keyword",
+		"super": "keyword",
+		"require": "keyword",
+		"readonly": "keyword",
+
+		// Internal namespace
+		"helpers": "module"
+	},
+	namePatterns: ['^_']
+};
+
+const defaultParameterDefaults: { [key: string]: string } = {
+	"leds": "`\n\t. . . . .\n\t. . . . .\n\t. . # . .\n\t. . . . .\n\t. . . . .\n\t`"
+};
+
 const typescriptDefaults = new LanguageServiceDefaultsImpl(
 	{ allowNonTsExtensions: true, target: ScriptTarget.Latest },
-	{ noSemanticValidation: false, noSyntaxValidation: false });
+	{ noSemanticValidation: false, noSyntaxValidation: false },
+	defaultCompletionFilter, defaultParameterDefaults,
+	{ style: 'function', typedParameters: true, qualifiedTypeNames: true });
 
 const javascriptDefaults = new LanguageServiceDefaultsImpl(
 	{ allowNonTsExtensions: true, allowJs: true, target: ScriptTarget.Latest },
-	{ noSemanticValidation: true, noSyntaxValidation: false });
+	{ noSemanticValidation: true, noSyntaxValidation: false },
+	defaultCompletionFilter, defaultParameterDefaults,
+	{ style: 'function', typedParameters: false, qualifiedTypeNames: true });
 
 function getTypeScriptWorker(): monaco.Promise<any> {
 	return new monaco.Promise((resolve, reject) => {
@@ -175,6 +366,24 @@ function getJavaScriptWorker(): monaco.Promise<any> {
 	});
 }
 
+function searchTypeScriptSymbols(query: string, options?: monaco.languages.typescript.WorkspaceSymbolOptions): monaco.Promise<monaco.languages.SymbolInformation[]> {
+	return new monaco.Promise((resolve, reject) => {
+		withMode((mode) => {
+			mode.searchWorkspaceSymbols('typescript', query, options)
+				.then(resolve, reject);
+		});
+	});
+}
+
+function searchJavaScriptSymbols(query: string, options?: monaco.languages.typescript.WorkspaceSymbolOptions): monaco.Promise<monaco.languages.SymbolInformation[]> {
+	return new monaco.Promise((resolve, reject) => {
+		withMode((mode) => {
+			mode.searchWorkspaceSymbols('javascript', query, options)
+				.then(resolve, reject);
+		});
+	});
+}
+
 // Export API
 function createAPI(): typeof monaco.languages.typescript {
 	return {
@@ -186,13 +395,30 @@ function createAPI(): typeof monaco.languages.typescript {
 		typescriptDefaults: typescriptDefaults,
 		javascriptDefaults: javascriptDefaults,
 		getTypeScriptWorker: getTypeScriptWorker,
-		getJavaScriptWorker: getJavaScriptWorker
+		getJavaScriptWorker: getJavaScriptWorker,
+		searchTypeScriptSymbols: searchTypeScriptSymbols,
+		searchJavaScriptSymbols: searchJavaScriptSymbols
 	}
 }
 monaco.languages.typescript = createAPI();
 
 // --- Registration to monaco editor ---
 
+// editors are tracked from the start because the mode is loaded
+// lazily, usually after the first editor has been created
+const codeEditors: monaco.editor.ICodeEditor[] = [];
+
+monaco.editor.onDidCreateEditor(editor => {
+	codeEditors.push(editor);
+	editor.onDidDispose(() => {
+		codeEditors.splice(codeEditors.indexOf(editor), 1);
+	});
+});
+
+function getCodeEditors(): monaco.editor.ICodeEditor[] {
+	return codeEditors.slice();
+}
+
 function withMode(callback: (module: typeof mode) => void): void {
 	require<typeof mode>(['vs/language/typescript/src/mode'], callback);
 }
@@ -204,7 +430,7 @@ monaco.languages.register({
 	mimetypes: ['text/typescript']
 });
 monaco.languages.onLanguage('typescript', () => {
-	withMode((mode) => mode.setupTypeScript(typescriptDefaults));
+	withMode((mode) => mode.setupTypeScript(typescriptDefaults, getCodeEditors));
 });
 
 monaco.languages.register({
@@ -216,5 +442,5 @@ monaco.languages.register({
 	mimetypes: ['text/javascript'],
 });
 monaco.languages.onLanguage('javascript', () => {
-	withMode((mode) => mode.setupJavaScript(javascriptDefaults));
+	withMode((mode) => mode.setupJavaScript(javascriptDefaults, getCodeEditors));
 });
@@ -55,6 +55,10 @@ declare module monaco.languages.typescript {
         inlineSources?: boolean;
         isolatedModules?: boolean;
         jsx?: JsxEmit;
+        /**
+         * The standard libs to load instead of the default lib of the target,
+         * e.g. `['es2015', 'dom']`. Leave out `dom` to compile without the DOM.
+         */
         lib?: string[];
         locale?: string;
         mapRoot?: string;
@@ -103,6 +107,87 @@ declare module monaco.languages.typescript {
     export interface DiagnosticsOptions {
         noSemanticValidation?: boolean;
         noSyntaxValidation?: boolean;
+        /**
+         * TypeScript error codes, like `2304`, that are never reported.
+         */
+        diagnosticCodesToIgnore?: number[];
+    }
+
+    export interface CompletionFilter {
+        /**
+         * Completions to hide by name, mapped to the script element kind
+         * to hide, like `{ "RegExp": "interface" }`, or `"*"` for any kind.
+         */
+        names?: { [name: string]: string };
+        /**
+         * Script element kinds to hide, like `"keyword"`.
+         */
+        kinds?: string[];
+        /**
+         * Regular expressions, like `"^_"`. Completions with a matching name are hidden.
+         */
+        namePatterns?: string[];
+        /**
+         * Namespaces whose members are hidden, like `"helpers"`.
+         */
+        namespaces?: string[];
+    }
+
+    export interface Snippet {
+        /**
+         * The word that offers the snippet in the completion list, like `"forever"`.
+         */
+        prefix: string;
+        /**
+         * The snippet, with placeholders like `${1:name}` and `$0`. An
+         * array of lines is joined with line breaks.
+         */
+        body: string | string[];
+        description?: string;
+        /**
+         * Only offer the snippet when this namespace, like `"input"`, is in scope.
+         */
+        namespace?: string;
+    }
+
+    export interface CallbackSnippetOptions {
+        /**
+         * `"function"` inserts `function (a: T) { }`, `"arrow"` inserts `(a: T) => { }`.
+         * Defaults to `"function"`.
+         */
+        style?: 'function' | 'arrow';
+        /**
+         * Whether the parameters have type annotations. Defaults to `true`,
+         * javascript files never have them.
+         */
+        typedParameters?: boolean;
+        /**
+         * Whether type names are fully qualified, like `images.Image`, or
+         * short, like `Image`. Defaults to `true`.
+         */
+        qualifiedTypeNames?: boolean;
+    }
+
+    export interface WorkspaceSymbolOptions {
+        /**
+         * Also search extra libs and default libs. Defaults to `false`.
+         */
+        includeLibs?: boolean;
+        /**
+         * Defaults to 100.
+         */
+        maxResultCount?: number;
+    }
+
+    export interface LibModelOptions {
+        /**
+         * The content of the model instead of the content of the lib.
+         */
+        content?: string;
+        /**
+         * The language of the model instead of the language of the mode.
+         */
+        language?: string;
     }
 
     export interface LanguageServiceDefaults {
@@ -119,7 +204,24 @@ declare module monaco.languages.typescript {
         addExtraLib(content: string, filePath?: string): IDisposable;
 
         /**
-         * Set TypeScript compiler options.
+         * Add or replace an additional source file of the language service.
+         * Only the changed file is sent to a running worker, it is not
+         * restarted.
+         *
+         * @param content The file content
+         * @param filePath The file path
+         */
+        updateExtraLib(content: string, filePath: string): void;
+
+        /**
+         * Remove an additional source file from the language service.
+         *
+         * @param filePath The file path used when adding the file
+         */
+        removeExtraLib(filePath: string): void;
+
+        /**
+         * Set TypeScript compiler options. This restarts the worker.
          */
         setCompilerOptions(options: CompilerOptions): void;
 
@@ -129,6 +231,59 @@ declare module monaco.languages.typescript {
          */
         setDiagnosticsOptions(options: DiagnosticsOptions): void;
 
+        /**
+         * Override the severity of diagnostics by their TypeScript error code,
+         * e.g. `{ 2304: monaco.Severity.Warning }`. Use `monaco.Severity.Ignore`
+         * to hide a diagnostic.
+         */
+        setDiagnosticSeverityOverrides(overrides: { [code: number]: monaco.Severity }): void;
+
+        /**
+         * Configure which completions are hidden. It replaces the
+         * default filter which hides boxed types, C++ integer types,
+         * unsupported keywords and names starting with an underscore.
+         */
+        setCompletionFilter(filter: CompletionFilter): void;
+
+        /**
+         * Configure the arguments of call snippets, used unless the function
+         * has a `//% name.defl=value` annotation or a `//% name.shadow=id`
+         * annotation naming the `//% blockId=id` of another function.
+         * Keys are, from most to least specific, fully qualified parameter
+         * names like `"basic.showLeds.leds"`, parameter names like `"leds"`
+         * and type names like `"Image"` or `"number"`. Values are snippet text.
+         */
+        setParameterDefaults(defaults: { [key: string]: string }): void;
+
+        /**
+         * Configure how call snippets render arguments of function types.
+         */
+        setCallbackSnippetOptions(options: CallbackSnippetOptions): void;
+
+        /**
+         * Offer a snippet in the completion list at the start of statements.
+         *
+         * @returns A disposable which removes the snippet.
+         */
+        addSnippet(snippet: Snippet): IDisposable;
+
+        /**
+         * Offer snippets in the completion list at the start of statements.
+         *
+         * @returns A disposable which removes the snippets.
+         */
+        registerSnippets(snippets: Snippet[]): IDisposable;
+
+        /**
+         * Called before a read-only model is created for an extra lib or a
+         * default lib, e.g. to go to a definition inside it. Return `false`
+         * to not create the model or options to customize it.
+         *
+         * @param hook Receives the file name, which is also the model uri,
+         * and the content of the lib.
+         */
+        setLibModelHook(hook: (fileName: string, content: string) => boolean | LibModelOptions): void;
+
         /**
          * Configure when the worker shuts down. By default that is 2mins.
          *
@@ -149,4 +304,14 @@ declare module monaco.languages.typescript {
 
     export var getTypeScriptWorker: () => monaco.Promise<any>;
     export var getJavaScriptWorker: () => monaco.Promise<any>;
+
+    /**
+     * Search the declarations of all TypeScript models by name, like
+     * `Ctrl+T` does in an IDE. Matches in libs are read-only models.
+     */
+    export var searchTypeScriptSymbols: (query: string, options?: WorkspaceSymbolOptions) => monaco.Promise<monaco.languages.SymbolInformation[]>;
+    /**
+     * Search the declarations of all JavaScript models by name.
+     */
+    export var searchJavaScriptSymbols: (query: string, options?: WorkspaceSymbolOptions) => monaco.Promise<monaco.languages.SymbolInformation[]>;
 }
\ No newline at end of file
@@ -5,76 +5,376 @@
 'use strict';
 
 import ts = require('../lib/typescriptServices');
-import { contents as libdts } from '../lib/lib-ts';
-import { contents as libes6ts } from '../lib/lib-es6-ts';
+import { libs as modularLibs } from '../lib/lib-modular-ts';
 
 import Promise = monaco.Promise;
 import IWorkerContext = monaco.worker.IWorkerContext;
 
-const DEFAULT_LIB = {
-	NAME: 'defaultLib:lib.d.ts',
-	CONTENTS: libdts
-};
-
-const ES6_LIB = {
-	NAME: 'defaultLib:lib.es6.d.ts',
-	CONTENTS: libes6ts
-};
-
-const ignoredCompletions: {[index: string]: string} = {
-	// Boxed types
-	"Boolean": ts.ScriptElementKind.interfaceElement,
-	"Number": ts.ScriptElementKind.interfaceElement,
-	"String": ts.ScriptElementKind.interfaceElement,
-	"Function": ts.ScriptElementKind.interfaceElement,
-	"Object": ts.ScriptElementKind.interfaceElement,
-
-	// Unsupported types
-	"RegExp": ts.ScriptElementKind.interfaceElement,
-	"IArguments": ts.ScriptElementKind.interfaceElement,
-
-	// C++ types
-	"int16": ts.ScriptElementKind.typeElement,
-	"int32": ts.ScriptElementKind.typeElement,
-	"int8": ts.ScriptElementKind.typeElement,
-	"uint16": ts.ScriptElementKind.typeElement,
-	"uint32": ts.ScriptElementKind.typeElement,
-	"uint8": ts.ScriptElementKind.typeElement,
-
-	// Unsupported keywords
-	"instanceof": ts.ScriptElementKind.keyword,
-	"typeof": ts.ScriptElementKind.keyword,
-	"never": ts.ScriptElementKind.keyword,
-	"debugger": ts.ScriptElementKind.keyword,
-	"declare": ts.ScriptElementKind.keyword,
-	"export": ts.ScriptElementKind.keyword,
-	"global": ts.ScriptElementKind.keyword,
-	"keyof": ts.ScriptElementKind.keyword,
-	"module": ts.ScriptElementKind.keyword,
-	"var": ts.ScriptElementKind.keyword,
-	"in": ts.ScriptElementKind.keyword,
-	"from": ts.ScriptElementKind.keyword,
-	"import": ts.ScriptElementKind.keyword,
-	"delete": ts.ScriptElementKind.keyword,
-	"with": ts.ScriptElementKind.keyword,
-	"await": ts.ScriptElementKind.keyword,
-	"try": ts.ScriptElementKind.keyword,
-	"catch": ts.ScriptElementKind.keyword,
-	"finally": ts.ScriptElementKind.keyword,
-	"yield": ts.ScriptElementKind.keyword,
-	"as": ts.ScriptElementKind.keyword,
-	"async": ts.ScriptElementKind.keyword,
-	"abstract": ts.ScriptElementKind.keyword,
-	"any": ts.ScriptElementKind.keyword,
-	"undefined": ts.ScriptElementKind.keyword,
-	"throw": ts.ScriptElementKind.keyword,
-	"symbol": ts.ScriptElementKind.keyword,
-	"super": ts.ScriptElementKind.keyword,
-	"require": ts.ScriptElementKind.keyword,
-	"readonly": ts.ScriptElementKind.keyword,
-
-	// Internal namespace
-	"helpers": ts.ScriptElementKind.moduleElement
+// the default libs only reference the modular lib files, which hold the same declarations
+function fullLib(name: string, esLib: string, iterable: boolean) {
+	return {
+		NAME: `defaultLib:${name}`,
+		CONTENTS: [
+			'/// <reference no-default-lib="true"/>',
+			`/// <reference path="lib.${esLib}.d.ts" />`,
+			'/// <reference path="lib.dom.d.ts" />',
+			'/// <reference path="lib.scripthost.d.ts" />'
+		].concat(iterable ? ['/// <reference path="lib.dom.iterable.d.ts" />'] : []).concat([
+			// only available in a web worker
+			'declare function importScripts(...urls: string[]): void;'
+		]).join('\n')
+	};
+}
+
+const DEFAULT_LIB = fullLib('lib.d.ts', 'es5', false);
+const ES6_LIB = fullLib('lib.es6.d.ts', 'es2015', true);
+const ES2016_LIB = fullLib('lib.es2016.full.d.ts', 'es2016', true);
+const ES2017_LIB = fullLib('lib.es2017.full.d.ts', 'es2017', true);
+const ESNEXT_LIB = fullLib('lib.esnext.full.d.ts', 'esnext', true);
+
+const DEFAULT_LIBS = [DEFAULT_LIB, ES6_LIB, ES2016_LIB, ES2017_LIB, ESNEXT_LIB];
+
+/**
+ * Turns the short names of the `lib` compiler option, like `es2015` or `dom`,
+ * into the file names used by the language service.
+ */
+function toLibFileName(lib: string): string {
+	lib = lib.toLowerCase();
+	if (/^lib\..*\.d\.ts$/.test(lib)) {
+		return lib;
+	}
+	return `lib.${lib === 'es6' ? 'es2015' : lib === 'es7' ? 'es2016' : lib}.d.ts`;
+}
+
+/**
+ * Tells whether a completion is hidden by the completion filter of the host.
+ */
+function isFilteredCompletion(filter: monaco.languages.typescript.CompletionFilter, namePatterns: RegExp[], name: string, kind: string, qualifiedName?: string): boolean {
+	const ignoredKind = filter.names && filter.names[name];
+	if (ignoredKind === kind || ignoredKind === '*') {
+		return true;
+	}
+	if (filter.kinds && filter.kinds.indexOf(kind) !== -1) {
+		return true;
+	}
+	if (namePatterns.some(pattern => pattern.test(name))) {
+		return true;
+	}
+	if (qualifiedName && filter.namespaces) {
+		return filter.namespaces.some(ns => qualifiedName === ns || qualifiedName.indexOf(ns + '.') === 0);
+	}
+	return false;
+}
+
+/**
+ * The `//% key=value` annotations of a declaration, e.g. `//% weight=90 blockHidden=true`.
+ * Keys without a value are `true`.
+ */
+export interface ICommentAttributes {
+	[key: string]: string;
+}
+
+const annotationLine = /^\s*\/\/%(.*)$/gm;
+const annotationAttribute = /([\w.]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|(\S+)))?/g;
+
+// weight of completions without a weight annotation
+const DEFAULT_WEIGHT = 50;
+
+// entries of a scope that get their details up front, the others get them once resolved
+const MAX_ENTRY_DETAILS = 50;
+
+export function parseCommentAttributes(comment: string): ICommentAttributes {
+	const attributes: ICommentAttributes = Object.create(null);
+	let line: RegExpExecArray;
+	annotationLine.lastIndex = 0;
+	while (line = annotationLine.exec(comment)) {
+		let attribute: RegExpExecArray;
+		annotationAttribute.lastIndex = 0;
+		while (attribute = annotationAttribute.exec(line[1])) {
+			const value = attribute[2] !== undefined ? attribute[2] : attribute[3] !== undefined ? attribute[3] : attribute[4];
+			attributes[attribute[1]] = value !== undefined ? value : 'true';
+		}
+	}
+	return attributes;
+}
+
+const scriptExtension = /(\.d)?\.(tsx?|jsx?)$/;
+
+/**
+ * Returns the relative module specifier, like `"./utils"`, that imports
+ * `toFileName` from `fromFileName`, or `undefined` when there is none.
+ */
+export function getModuleSpecifier(fromFileName: string, toFileName: string): string {
+	const from = monaco.Uri.parse(fromFileName);
+	const to = monaco.Uri.parse(toFileName);
+	if (from.scheme !== to.scheme || from.authority !== to.authority || !scriptExtension.test(to.path) || /\.d\.ts$/.test(to.path)) {
+		return undefined;
+	}
+	const fromSegments = from.path.split('/').slice(0, -1);
+	const toSegments = to.path.replace(scriptExtension, '').split('/');
+	let common = 0;
+	while (common < fromSegments.length && common < toSegments.length - 1 && fromSegments[common] === toSegments[common]) {
+		common++;
+	}
+	const up = fromSegments.slice(common).map(() => '..');
+	const relative = up.concat(toSegments.slice(common)).join('/');
+	return up.length ? relative : `./${relative}`;
+}
+
+/**
+ * A rough check whether a value of the source type can be passed for the target
+ * type, good enough to choose between overloads.
+ */
+function isLikelyAssignable(typeChecker: ts.TypeChecker, source: ts.Type, target: ts.Type): boolean {
+	if (source.flags & ts.TypeFlags.Any || target.flags & ts.TypeFlags.Any) {
+		return true;
+	}
+	if (target.flags & ts.TypeFlags.Union) {
+		return (<ts.UnionType>target).types.some(type => isLikelyAssignable(typeChecker, source, type));
+	}
+	for (let flag of [ts.TypeFlags.NumberLike, ts.TypeFlags.StringLike, ts.TypeFlags.BooleanLike]) {
+		if (target.flags & flag) {
+			return !!(source.flags & flag);
+		}
+	}
+	if (target.flags & ts.TypeFlags.Object) {
+		return !!(source.flags & (ts.TypeFlags.Object | ts.TypeFlags.Null | ts.TypeFlags.Undefined));
+	}
+	return typeChecker.typeToString(source) === typeChecker.typeToString(target);
+}
+
+function isWord(node: ts.Node): boolean {
+	return node.kind === ts.SyntaxKind.Identifier
+		|| node.kind >= ts.SyntaxKind.FirstKeyword && node.kind <= ts.SyntaxKind.LastKeyword;
+}
+
+function isStatementList(node: ts.Node): boolean {
+	switch (node.kind) {
+		case ts.SyntaxKind.SourceFile:
+		case ts.SyntaxKind.Block:
+		case ts.SyntaxKind.ModuleBlock:
+		case ts.SyntaxKind.CaseClause:
+		case ts.SyntaxKind.DefaultClause:
+			return true;
+	}
+	return false;
+}
+
+function isTrue(value: string): boolean {
+	return value === 'true' || value === '1';
+}
+
+/**
+ * A snapshot that can tell the language service which part of the text
+ * changed since an older snapshot, so that it can reparse incrementally.
+ */
+export class ScriptSnapshot implements ts.IScriptSnapshot {
+
+	constructor(private _text: string) {
+	}
+
+	getText(start: number, end: number): string {
+		return this._text.substring(start, end);
+	}
+
+	getLength(): number {
+		return this._text.length;
+	}
+
+	getChangeRange(oldSnapshot: ts.IScriptSnapshot): ts.TextChangeRange {
+		if (!(oldSnapshot instanceof ScriptSnapshot)) {
+			return undefined;
+		}
+		const oldText = oldSnapshot._text;
+		const newText = this._text;
+		if (oldText === newText) {
+			return ts.unchangedTextChangeRange;
+		}
+
+		const maxLength = Math.min(oldText.length, newText.length);
+		let prefixLength = 0;
+		while (prefixLength < maxLength && oldText.charCodeAt(prefixLength) === newText.charCodeAt(prefixLength)) {
+			prefixLength++;
+		}
+		let suffixLength = 0;
+		while (suffixLength < maxLength - prefixLength
+			&& oldText.charCodeAt(oldText.length - suffixLength - 1) === newText.charCodeAt(newText.length - suffixLength - 1)) {
+			suffixLength++;
+		}
+
+		const oldSpan = ts.createTextSpan(prefixLength, oldText.length - prefixLength - suffixLength);
+		return ts.createTextChangeRange(oldSpan, newText.length - prefixLength - suffixLength);
+	}
+}
+
+/**
+ * The exported functions and namespaces of the program, with their namespace as
+ * container, and the functions annotated with a `//% blockId`. Files are only
+ * indexed again when their script version changes.
+ */
+class SymbolIndex {
+
+	private _files: { [fileName: string]: { version: string; items: ts.NavigateToItem[]; blockIds: { [blockId: string]: string } } } = Object.create(null);
+
+	update(program: ts.Program, getScriptVersion: (fileName: string) => string): void {
+		const fileNames: { [fileName: string]: boolean } = Object.create(null);
+		for (let sourceFile of program.getSourceFiles()) {
+			const fileName = sourceFile.fileName;
+			const version = getScriptVersion(fileName);
+			fileNames[fileName] = true;
+			const entry = this._files[fileName];
+			if (!entry || entry.version !== version) {
+				const items: ts.NavigateToItem[] = [];
+				const blockIds: { [blockId: string]: string } = Object.create(null);
+				SymbolIndex._collect(sourceFile, sourceFile.statements, '', sourceFile.isDeclarationFile, items, blockIds);
+				this._files[fileName] = { version, items, blockIds };
+			}
+		}
+		for (let fileName in this._files) {
+			if (!fileNames[fileName]) {
+				delete this._files[fileName];
+			}
+		}
+	}
+
+	search(query: string, maxResultCount: number, filter: (item: ts.NavigateToItem) => boolean): ts.NavigateToItem[] {
+		const matches: { item: ts.NavigateToItem; score: number }[] = [];
+		for (let fileName in this._files) {
+			for (let item of this._files[fileName].items) {
+				const score = matchSymbolName(query, item.name);
+				if (score > 0 && filter(item)) {
+					matches.push({ item, score });
+				}
+			}
+		}
+		return matches
+			.sort((a, b) => b.score - a.score || a.item.name.length - b.item.name.length || (a.item.name < b.item.name ? -1 : a.item.name > b.item.name ? 1 : 0))
+			.slice(0, maxResultCount)
+			.map(match => match.item);
+	}
+
+	/**
+	 * Returns the qualified name of the function annotated with `//% blockId=<blockId>`.
+	 */
+	getBlockFunction(blockId: string): string {
+		for (let fileName in this._files) {
+			const qualifiedName = this._files[fileName].blockIds[blockId];
+			if (qualifiedName) {
+				return qualifiedName;
+			}
+		}
+		return undefined;
+	}
+
+	private static _collect(sourceFile: ts.SourceFile, statements: ts.NodeArray<ts.Statement>, containerName: string, ambient: boolean,
+		items: ts.NavigateToItem[], blockIds: { [blockId: string]: string }): void {
+		for (let statement of statements) {
+			// only exported and ambient declarations can be used outside of their namespace
+			const flags = ts.getCombinedModifierFlags(statement);
+			const inAmbientContext = ambient || !!(flags & ts.ModifierFlags.Ambient);
+			const kindModifiers = [
+				flags & ts.ModifierFlags.Export ? ts.ScriptElementKindModifier.exportedModifier : '',
+				inAmbientContext ? ts.ScriptElementKindModifier.ambientModifier : ''
+			].filter(modifier => !!modifier).join(',');
+			if (statement.kind === ts.SyntaxKind.FunctionDeclaration) {
+				const name = (<ts.FunctionDeclaration>statement).name;
+				if (name && kindModifiers) {
+					items.push(SymbolIndex._createItem(sourceFile, statement, name.text, ts.ScriptElementKind.functionElement, kindModifiers, containerName));
+					const comments = ts.getLeadingCommentRanges(sourceFile.text, statement.pos) || [];
+					const blockId = parseCommentAttributes(comments.map(range => sourceFile.text.slice(range.pos, range.end)).join('\n'))['blockId'];
+					if (blockId) {
+						blockIds[blockId] = containerName ? `${containerName}.${name.text}` : name.text;
+					}
+				}
+			} else if (statement.kind === ts.SyntaxKind.ModuleDeclaration && (kindModifiers || !containerName)) {
+				// `namespace a.b {}` nests the declaration of `b` in `a`
+				let declaration = <ts.ModuleDeclaration>statement;
+				let qualifiedName = containerName;
+				while (declaration && declaration.name.kind === ts.SyntaxKind.Identifier) {
+					const name = (<ts.Identifier>declaration.name).text;
+					items.push(SymbolIndex._createItem(sourceFile, declaration, name, ts.ScriptElementKind.moduleElement, kindModifiers, qualifiedName));
+					qualifiedName = qualifiedName ? `${qualifiedName}.${name}` : name;
+					const body = declaration.body;
+					if (body && body.kind === ts.SyntaxKind.ModuleBlock) {
+						SymbolIndex._collect(sourceFile, (<ts.ModuleBlock>body).statements, qualifiedName, inAmbientContext, items, blockIds);
+					}
+					declaration = body && body.kind === ts.SyntaxKind.ModuleDeclaration ? <ts.ModuleDeclaration>body : undefined;
+				}
+			}
+		}
+	}
+
+	private static _createItem(sourceFile: ts.SourceFile, node: ts.Node, name: string, kind: string, kindModifiers: string, containerName: string): ts.NavigateToItem {
+		const start = node.getStart(sourceFile);
+		return {
+			name,
+			kind,
+			kindModifiers,
+			matchKind: 'exact',
+			isCaseSensitive: false,
+			fileName: sourceFile.fileName,
+			textSpan: ts.createTextSpan(start, node.end - start),
+			containerName,
+			containerKind: containerName ? ts.ScriptElementKind.moduleElement : ''
+		};
+	}
+}
+
+/**
+ * Scores how well the name matches the query: 3 for a prefix, 2 for camel case
+ * humps like `shNu` for `showNumber`, 1 for the characters in order and 0 for no match.
+ */
+export function matchSymbolName(query: string, name: string): number {
+	const lowerQuery = query.toLowerCase();
+	const lowerName = name.toLowerCase();
+	if (lowerName.indexOf(lowerQuery) === 0) {
+		return 3;
+	}
+	if (matchesCamelCase(lowerQuery, name)) {
+		return 2;
+	}
+	if (lowerName.charAt(0) !== lowerQuery.charAt(0)) {
+		return 0;
+	}
+	let j = 0;
+	for (let i = 0; i < lowerName.length && j < lowerQuery.length; i++) {
+		if (lowerName.charAt(i) === lowerQuery.charAt(j)) {
+			j++;
+		}
+	}
+	return j === lowerQuery.length ? 1 : 0;
+}
+
+export function matchesCamelCase(lowerQuery: string, name: string): boolean {
+	let j = 0;
+	let contiguous = false;
+	for (let i = 0; i < lowerQuery.length; i++) {
+		const c = lowerQuery.charAt(i);
+		if (contiguous && j < name.length && name.charAt(j).toLowerCase() === c) {
+			j++;
+			continue;
+		}
+		while (j < name.length && !(isHumpStart(name, j) && name.charAt(j).toLowerCase() === c)) {
+			j++;
+		}
+		if (j === name.length) {
+			return false;
+		}
+		j++;
+		contiguous = true;
+	}
+	return true;
+}
+
+function isHumpStart(name: string, i: number): boolean {
+	if (i === 0) {
+		return true;
+	}
+	const c = name.charAt(i);
+	const previous = name.charAt(i - 1);
+	return c !== c.toLowerCase() && previous === previous.toLowerCase()
+		|| previous === '_'
+		|| /\d/.test(c) && !/\d/.test(previous);
 }
 
 export class TypeScriptWorker implements ts.LanguageServiceHost {
@@ -83,13 +383,48 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 
 	private _ctx: IWorkerContext;
 	private _extraLibs: { [fileName: string]: string } = Object.create(null);
+	private _extraLibVersions: { [fileName: string]: number } = Object.create(null);
+	private _snapshots: { [fileName: string]: { version: number; snapshot: ScriptSnapshot } } = Object.create(null);
 	private _languageService = ts.createLanguageService(this);
 	private _compilerOptions: ts.CompilerOptions;
+	private _completionFilter: monaco.languages.typescript.CompletionFilter;
+	private _completionNamePatterns: RegExp[];
+	private _parameterDefaults: { [key: string]: string };
+	private _symbolIndex = new SymbolIndex();
 
 	constructor(ctx: IWorkerContext, createData: ICreateData) {
 		this._ctx = ctx;
 		this._compilerOptions = createData.compilerOptions;
-		this._extraLibs = createData.extraLibs;
+		if (this._compilerOptions.lib) {
+			this._compilerOptions = { ...this._compilerOptions, lib: this._compilerOptions.lib.map(toLibFileName) };
+		}
+		for (let fileName in createData.extraLibs) {
+			this._extraLibs[fileName] = createData.extraLibs[fileName];
+		}
+		this.setCompletionFilter(createData.completionFilter);
+		this.setParameterDefaults(createData.parameterDefaults);
+	}
+
+	updateExtraLib(fileName: string, content: string): Promise<void> {
+		this._extraLibs[fileName] = content;
+		this._extraLibVersions[fileName] = (this._extraLibVersions[fileName] || 1) + 1;
+		return Promise.as(undefined);
+	}
+
+	removeExtraLib(fileName: string): Promise<void> {
+		delete this._extraLibs[fileName];
+		return Promise.as(undefined);
+	}
+
+	setCompletionFilter(filter: monaco.languages.typescript.CompletionFilter): Promise<void> {
+		this._completionFilter = filter || {};
+		this._completionNamePatterns = (this._completionFilter.namePatterns || []).map(pattern => new RegExp(pattern));
+		return Promise.as(undefined);
+	}
+
+	setParameterDefaults(defaults: { [key: string]: string }): Promise<void> {
+		this._parameterDefaults = defaults || {};
+		return Promise.as(undefined);
 	}
 
 	// --- language service host ---------------
@@ -99,7 +434,16 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 	}
 
 	getScriptFileNames(): string[] {
-		let models = this._ctx.getMirrorModels().map(model => model.uri.toString());
+		let models = this._ctx.getMirrorModels()
+			.map(model => model.uri.toString())
+			// read-only models of libs are already part of the program
+			.filter(fileName => !this._isLibFileName(fileName));
+		for (let fileName in this._snapshots) {
+			if (models.indexOf(fileName) === -1) {
+				// model is gone, forget its snapshot
+				delete this._snapshots[fileName];
+			}
+		}
 		return models.concat(Object.keys(this._extraLibs));
 	}
 
@@ -114,39 +458,44 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 	}
 
 	getScriptVersion(fileName: string): string {
+		// libs come from their source, even when a read-only model of them is open
+		if (fileName in this._extraLibs) {
+			// extra libs change through updateExtraLib
+			return String(this._extraLibVersions[fileName] || 1);
+		}
+		if (this._getLibContents(fileName) !== undefined) {
+			// default and modular libs are static
+			return '1';
+		}
 		let model = this._getModel(fileName);
 		if (model) {
 			return model.version.toString();
-		} else if (this.isDefaultLibFileName(fileName) || fileName in this._extraLibs) {
-			// extra lib and default lib are static
-			return '1';
 		}
 	}
 
 	getScriptSnapshot(fileName: string): ts.IScriptSnapshot {
-		let text: string;
-		let model = this._getModel(fileName);
-		if (model) {
-			// a true editor model
-			text = model.getValue();
-
-		} else if (fileName in this._extraLibs) {
-			// static extra lib
-			text = this._extraLibs[fileName];
+		if (fileName in this._extraLibs) {
+			return new ScriptSnapshot(this._extraLibs[fileName]);
+		}
+		const libContents = this._getLibContents(fileName);
+		if (libContents !== undefined) {
+			return new ScriptSnapshot(libContents);
+		}
 
-		} else if (fileName === DEFAULT_LIB.NAME) {
-			text = DEFAULT_LIB.CONTENTS;
-		} else if (fileName === ES6_LIB.NAME) {
-			text = ES6_LIB.CONTENTS;
-		} else {
+		let model = this._getModel(fileName);
+		if (!model) {
 			return;
 		}
-
-		return <ts.IScriptSnapshot>{
-			getText: (start, end) => text.substring(start, end),
-			getLength: () => text.length,
-			getChangeRange: () => undefined
-		};
+		// a true editor model, reuse the snapshot of its current version
+		// so that later versions can report what changed against it
+		let entry = this._snapshots[fileName];
+		if (!entry || entry.version !== model.version) {
+			entry = this._snapshots[fileName] = {
+				version: model.version,
+				snapshot: new ScriptSnapshot(model.getValue())
+			};
+		}
+		return entry.snapshot;
 	}
 
 	getScriptKind?(fileName: string): ts.ScriptKind {
@@ -167,14 +516,39 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 	}
 
 	getDefaultLibFileName(options: ts.CompilerOptions): string {
-		// TODO@joh support lib.es7.d.ts
-		return options.target <= ts.ScriptTarget.ES5 ? DEFAULT_LIB.NAME : ES6_LIB.NAME;
+		switch (options.target) {
+			case undefined:
+			case ts.ScriptTarget.ES3:
+			case ts.ScriptTarget.ES5:
+				return DEFAULT_LIB.NAME;
+			case ts.ScriptTarget.ES2015:
+				return ES6_LIB.NAME;
+			case ts.ScriptTarget.ES2016:
+				return ES2016_LIB.NAME;
+			case ts.ScriptTarget.ES2017:
+				return ES2017_LIB.NAME;
+			default:
+				return ESNEXT_LIB.NAME;
+		}
 	}
 
 	isDefaultLibFileName(fileName: string): boolean {
 		return fileName === this.getDefaultLibFileName(this._compilerOptions);
 	}
 
+	/**
+	 * Files named in the `lib` compiler option and the references of the default
+	 * libs are resolved next to the default lib, i.e. without the `defaultLib:` prefix.
+	 */
+	private _getLibContents(fileName: string): string {
+		for (let lib of DEFAULT_LIBS) {
+			if (fileName === lib.NAME) {
+				return lib.CONTENTS;
+			}
+		}
+		return modularLibs[fileName.replace(/^defaultLib:/, '')];
+	}
+
 	// --- language features
 
 	getSyntacticDiagnostics(fileName: string): Promise<ts.Diagnostic[]> {
@@ -197,25 +571,423 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 
 	getCompletionsAtPosition(fileName: string, position: number): Promise<ts.CompletionInfo> {
 		const completions = this._languageService.getCompletionsAtPosition(fileName, position);
-		if (completions && completions.entries)
-			completions.entries = completions.entries
-				.filter(e => ignoredCompletions[e.name] !== e.kind
-						&& e.name.indexOf('_') != 0)
+		if (completions && completions.entries) {
+			const symbols = this._getCompletionSymbols(fileName, position, completions);
+			this._applyCommentAttributes(completions, symbols);
+			this._addEntryDetails(completions, symbols);
+			this._addEntryDeclarations(completions, symbols);
+		}
 		return Promise.as(completions);
 	}
 
+	/**
+	 * Tells whether a statement can start at the position, e.g. at the start of a
+	 * line in a block, but not inside an expression, a string or a comment.
+	 */
+	isStatementPosition(fileName: string, position: number): Promise<boolean> {
+		const sourceFile = this._languageService.getProgram().getSourceFile(fileName);
+		if (!sourceFile) {
+			return Promise.as(false);
+		}
+		const tokenAtPosition: ts.Node = (ts as any).getTokenAtPosition(sourceFile, position);
+		if ((ts as any).isInComment(sourceFile, position, tokenAtPosition)
+			|| (ts as any).isInString(sourceFile, position)
+			|| (ts as any).isInTemplateString(sourceFile, position)) {
+			return Promise.as(false);
+		}
+
+		// the word being typed doesn't count
+		let start = position;
+		let previous: ts.Node = (ts as any).findPrecedingToken(position, sourceFile);
+		if (previous && isWord(previous) && previous.end === position) {
+			start = previous.getStart(sourceFile);
+			previous = (ts as any).findPrecedingToken(start, sourceFile);
+		}
+		if (!previous) {
+			return Promise.as(true);
+		}
+
+		const parentKind = previous.parent && previous.parent.kind;
+		switch (previous.kind) {
+			case ts.SyntaxKind.OpenBraceToken:
+				return Promise.as(parentKind === ts.SyntaxKind.Block || parentKind === ts.SyntaxKind.ModuleBlock);
+			case ts.SyntaxKind.ColonToken:
+				return Promise.as(parentKind === ts.SyntaxKind.CaseClause || parentKind === ts.SyntaxKind.DefaultClause);
+			case ts.SyntaxKind.CloseParenToken:
+				if (parentKind === ts.SyntaxKind.IfStatement || parentKind === ts.SyntaxKind.WhileStatement
+					|| parentKind === ts.SyntaxKind.ForStatement || parentKind === ts.SyntaxKind.ForInStatement
+					|| parentKind === ts.SyntaxKind.ForOfStatement) {
+					return Promise.as(true);
+				}
+				break;
+			case ts.SyntaxKind.ElseKeyword:
+			case ts.SyntaxKind.DoKeyword:
+				return Promise.as(true);
+		}
+
+		// after a complete statement, which needs a line break unless it ends with `;` or `}`
+		let node = previous;
+		while (node.parent && !isStatementList(node.parent) && node.parent.end === previous.end) {
+			node = node.parent;
+		}
+		if (!node.parent || !isStatementList(node.parent)) {
+			return Promise.as(false);
+		}
+		if (previous.kind === ts.SyntaxKind.SemicolonToken || previous.kind === ts.SyntaxKind.CloseBraceToken) {
+			return Promise.as(true);
+		}
+		const lineOfPrevious = sourceFile.getLineAndCharacterOfPosition(previous.end).line;
+		return Promise.as(lineOfPrevious < sourceFile.getLineAndCharacterOfPosition(start).line);
+	}
+
+	/**
+	 * Tells how a call snippet fits in front of the text after the word at the position.
+	 */
+	getCallSnippetMode(fileName: string, position: number): Promise<CallSnippetMode> {
+		const model = this._getModel(fileName);
+		if (!model) {
+			return Promise.as<CallSnippetMode>('none');
+		}
+		const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, ts.LanguageVariant.Standard, model.getValue());
+		scanner.setTextPos(position);
+		let kind = scanner.scan();
+		if (kind === ts.SyntaxKind.Identifier || kind >= ts.SyntaxKind.FirstKeyword && kind <= ts.SyntaxKind.LastKeyword) {
+			// the rest of the word being completed
+			kind = scanner.scan();
+		}
+		while (kind === ts.SyntaxKind.WhitespaceTrivia || kind === ts.SyntaxKind.MultiLineCommentTrivia) {
+			kind = scanner.scan();
+		}
+		switch (kind) {
+			case ts.SyntaxKind.OpenParenToken:
+			case ts.SyntaxKind.DotToken:
+			case ts.SyntaxKind.LessThanToken:
+				// reuse the existing argument list
+				return Promise.as<CallSnippetMode>('none');
+			case ts.SyntaxKind.NewLineTrivia:
+			case ts.SyntaxKind.SingleLineCommentTrivia:
+			case ts.SyntaxKind.EndOfFileToken:
+			case ts.SyntaxKind.SemicolonToken:
+			case ts.SyntaxKind.CommaToken:
+			case ts.SyntaxKind.CloseParenToken:
+			case ts.SyntaxKind.CloseBracketToken:
+			case ts.SyntaxKind.CloseBraceToken:
+				return Promise.as<CallSnippetMode>('full');
+		}
+		// inside of an expression, placeholders would get in the way
+		return Promise.as<CallSnippetMode>('parentheses');
+	}
+
+	/**
+	 * Returns the namespaces, like `"input"` or `"game.sprites"`, that are in scope at the position.
+	 */
+	getAvailableNamespaces(fileName: string, position: number, namespaces: string[]): Promise<string[]> {
+		const program = this._languageService.getProgram();
+		const sourceFile = program.getSourceFile(fileName);
+		if (!sourceFile) {
+			return Promise.as([]);
+		}
+		const typeChecker = program.getTypeChecker();
+		const location: ts.Node = (ts as any).findPrecedingToken(position, sourceFile) || sourceFile;
+		const inScope: { [name: string]: ts.Symbol } = Object.create(null);
+		for (let symbol of typeChecker.getSymbolsInScope(location, ts.SymbolFlags.Namespace | ts.SymbolFlags.Alias)) {
+			inScope[symbol.name] = symbol;
+		}
+
+		const resolve = (symbol: ts.Symbol) => symbol && symbol.flags & ts.SymbolFlags.Alias ? typeChecker.getAliasedSymbol(symbol) : symbol;
+		return Promise.as(namespaces.filter(ns => {
+			const names = ns.split('.');
+			let symbol = resolve(inScope[names[0]]);
+			for (let i = 1; i < names.length && symbol; i++) {
+				symbol = resolve(typeChecker.getExportsOfModule(symbol).filter(s => s.name === names[i])[0]);
+			}
+			return !!symbol && !!(symbol.flags & ts.SymbolFlags.Namespace);
+		}));
+	}
+
+	/**
+	 * Uses the `//%` annotations of the completed symbols to drop hidden entries,
+	 * to sort by weight with advanced entries last, and to flag deprecated ones.
+	 */
+	private _applyCommentAttributes(completions: ts.CompletionInfo, symbols: { [name: string]: ts.Symbol }): void {
+		const pad = (n: number) => ('0000' + Math.max(0, Math.min(9999, n))).slice(-4);
+
+		const typeChecker = this._languageService.getProgram().getTypeChecker();
+
+		completions.entries = completions.entries.filter(entry => {
+			const symbol = symbols[entry.name];
+			const qualifiedName = symbol && typeChecker.getFullyQualifiedName(symbol);
+			if (isFilteredCompletion(this._completionFilter, this._completionNamePatterns, entry.name, entry.kind, qualifiedName)) {
+				return false;
+			}
+			const attributes = this._getCommentAttributes(symbol);
+			if (isTrue(attributes['blockHidden'])) {
+				return false;
+			}
+			const deprecated = isTrue(attributes['deprecated']);
+			if (deprecated) {
+				entry.kindModifiers = entry.kindModifiers ? `${entry.kindModifiers},deprecated` : 'deprecated';
+			}
+			const weight = parseInt(attributes['weight'], 10);
+			const group = deprecated ? 2 : isTrue(attributes['advanced']) ? 1 : 0;
+			entry.sortText = `${group}${pad(9999 - (isNaN(weight) ? DEFAULT_WEIGHT : weight))}${entry.sortText}`;
+			return true;
+		});
+	}
+
+	/**
+	 * Adds the namespace and a short signature, or the type, to the entries so
+	 * that they can be shown before an entry is resolved. A scope has thousands
+	 * of globals, so only the members of a type or the first entries of a scope
+	 * get them.
+	 */
+	private _addEntryDetails(completions: ts.CompletionInfo, symbols: { [name: string]: ts.Symbol }): void {
+		const typeChecker = this._languageService.getProgram().getTypeChecker();
+		let entries = <ICompletionEntry[]>completions.entries;
+		if (!completions.isMemberCompletion) {
+			// of the same weight, the symbols of the program go before the ones of the libs
+			const inLib: { [name: string]: number } = Object.create(null);
+			for (let entry of entries) {
+				const symbol = symbols[entry.name];
+				const declaration = symbol && symbol.declarations && symbol.declarations[0];
+				inLib[entry.name] = !declaration || this._isLibFileName(declaration.getSourceFile().fileName) ? 1 : 0;
+			}
+			entries = entries.slice()
+				.sort((a, b) => a.sortText < b.sortText ? -1 : a.sortText > b.sortText ? 1 : inLib[a.name] - inLib[b.name])
+				.slice(0, MAX_ENTRY_DETAILS);
+		}
+		for (let entry of entries) {
+			const symbol = symbols[entry.name];
+			const declaration = symbol && symbol.valueDeclaration;
+			if (!declaration) {
+				continue;
+			}
+			const qualifiedName = typeChecker.getFullyQualifiedName(symbol);
+			const dot = qualifiedName.lastIndexOf('.');
+			if (dot !== -1 && qualifiedName.charAt(0) !== '"') {
+				entry.containerName = qualifiedName.substring(0, dot);
+			}
+
+			const type = typeChecker.getTypeOfSymbolAtLocation(symbol, declaration);
+			const signatures = type.getCallSignatures();
+			let signature: string;
+			if (symbol.flags & (ts.SymbolFlags.Function | ts.SymbolFlags.Method) && signatures.length) {
+				signature = typeChecker.signatureToString(signatures[0]);
+				if (signatures.length > 1) {
+					signature += ` (+${signatures.length - 1} overloads)`;
+				}
+			} else if (symbol.flags & (ts.SymbolFlags.Variable | ts.SymbolFlags.Property | ts.SymbolFlags.Accessor)) {
+				signature = `: ${typeChecker.typeToString(type)}`;
+			} else {
+				continue;
+			}
+			entry.detail = `${entry.containerName ? `${entry.containerName}.` : ''}${entry.name}${signature}`;
+		}
+	}
+
+	/**
+	 * Tells where the symbols of the entries are declared, which identifies them
+	 * across requests. Members of instantiated types depend on the type
+	 * arguments, so they are left out.
+	 */
+	private _addEntryDeclarations(completions: ts.CompletionInfo, symbols: { [name: string]: ts.Symbol }): void {
+		for (let entry of <ICompletionEntry[]>completions.entries) {
+			const symbol = symbols[entry.name];
+			if (!symbol || !symbol.declarations || !symbol.declarations.length || symbol.flags & ts.SymbolFlags.Transient) {
+				continue;
+			}
+			const [declaration] = symbol.declarations;
+			entry.declaration = {
+				fileName: declaration.getSourceFile().fileName,
+				pos: declaration.pos
+			};
+		}
+	}
+
+	/**
+	 * Resolves the symbols of completion entries in one go, members through the
+	 * type left of the dot and everything else through the symbols in scope.
+	 */
+	private _getCompletionSymbols(fileName: string, position: number, completions: ts.CompletionInfo): { [name: string]: ts.Symbol } {
+		const program = this._languageService.getProgram();
+		const sourceFile = program.getSourceFile(fileName);
+		const typeChecker = program.getTypeChecker();
+		const symbols: { [name: string]: ts.Symbol } = Object.create(null);
+
+		const token: ts.Node = (ts as any).findPrecedingToken(position, sourceFile);
+		if (completions.isMemberCompletion) {
+			let node = token && token.kind === ts.SyntaxKind.Identifier ? token.parent : token && token.parent;
+			let left: ts.Node;
+			if (node && node.kind === ts.SyntaxKind.PropertyAccessExpression) {
+				left = (<ts.PropertyAccessExpression>node).expression;
+			} else if (node && node.kind === ts.SyntaxKind.QualifiedName) {
+				left = (<ts.QualifiedName>node).left;
+			}
+			const type = left && typeChecker.getTypeAtLocation(left);
+			if (type) {
+				for (let entry of completions.entries) {
+					symbols[entry.name] = type.getProperty(entry.name);
+				}
+			}
+		} else {
+			const meaning = ts.SymbolFlags.Value | ts.SymbolFlags.Type | ts.SymbolFlags.Namespace | ts.SymbolFlags.Alias;
+			for (let symbol of typeChecker.getSymbolsInScope(token || sourceFile, meaning)) {
+				if (!symbols[symbol.name]) {
+					symbols[symbol.name] = symbol;
+				}
+			}
+		}
+		return symbols;
+	}
+
+	private _getCommentAttributes(symbol: ts.Symbol): ICommentAttributes {
+		let attributes: ICommentAttributes = Object.create(null);
+		if (!symbol || !symbol.declarations) {
+			return attributes;
+		}
+		for (let declaration of symbol.declarations) {
+			// the comments of a variable are in front of its statement
+			let node: ts.Node = declaration;
+			if (node.kind === ts.SyntaxKind.VariableDeclaration && node.parent && node.parent.parent) {
+				node = node.parent.parent;
+			}
+			const text = node.getSourceFile().text;
+			const comments = ts.getLeadingCommentRanges(text, node.pos) || [];
+			const parsed = parseCommentAttributes(comments.map(range => text.slice(range.pos, range.end)).join('\n'));
+			for (let key in parsed) {
+				if (!(key in attributes)) {
+					attributes[key] = parsed[key];
+				}
+			}
+		}
+		return attributes;
+	}
+
 	getCompletionEntryDetails(fileName: string, position: number, entry: string): Promise<ts.CompletionEntryDetails> {
 		return Promise.as(this._languageService.getCompletionEntryDetails(fileName, position, entry));
 	}
 
 	getSignatureHelpItems(fileName: string, position: number): Promise<ts.SignatureHelpItems> {
-		return Promise.as(this._languageService.getSignatureHelpItems(fileName, position));
+		const items = this._languageService.getSignatureHelpItems(fileName, position);
+		if (items && items.items.length > 1) {
+			items.selectedItemIndex = this._getBestOverload(fileName, items);
+		}
+		return Promise.as(items);
+	}
+
+	/**
+	 * Scores the overloads by how many of the typed arguments fit their parameters.
+	 * TypeScript can only select an overload once all arguments fit.
+	 */
+	private _getBestOverload(fileName: string, items: ts.SignatureHelpItems): number {
+		const program = this._languageService.getProgram();
+		const sourceFile = program.getSourceFile(fileName);
+		const typeChecker = program.getTypeChecker();
+
+		let node: ts.Node = (ts as any).getTokenAtPosition(sourceFile, items.applicableSpan.start);
+		while (node && !((node.kind === ts.SyntaxKind.CallExpression || node.kind === ts.SyntaxKind.NewExpression)
+			&& (<ts.CallExpression>node).arguments && (<ts.CallExpression>node).arguments.pos === items.applicableSpan.start)) {
+			node = node.parent;
+		}
+		if (!node) {
+			return items.selectedItemIndex;
+		}
+		const call = <ts.CallExpression>node;
+		const candidates: ts.Signature[] = [];
+		typeChecker.getResolvedSignature(call, candidates);
+		if (candidates.length !== items.items.length) {
+			return items.selectedItemIndex;
+		}
+
+		const score = (signature: ts.Signature) => {
+			const parameters = signature.parameters;
+			const hasRestParameter: boolean = (signature as any).hasRestParameter;
+			if (items.argumentCount > parameters.length && !hasRestParameter) {
+				return -1;
+			}
+			let result = 0;
+			call.arguments.forEach((argument, i) => {
+				const parameter = parameters[Math.min(i, parameters.length - 1)];
+				if (!parameter || argument.getWidth(sourceFile) === 0) {
+					// not typed yet
+					return;
+				}
+				let parameterType = typeChecker.getTypeOfSymbolAtLocation(parameter, call);
+				if (hasRestParameter && i >= parameters.length - 1) {
+					const typeArguments = (<ts.TypeReference>parameterType).typeArguments;
+					parameterType = typeArguments && typeArguments[0] || parameterType;
+				}
+				if (isLikelyAssignable(typeChecker, typeChecker.getTypeAtLocation(argument), parameterType)) {
+					result++;
+				}
+			});
+			return result;
+		};
+
+		let best = items.selectedItemIndex;
+		let bestScore = score(candidates[best]);
+		candidates.forEach((candidate, i) => {
+			const candidateScore = score(candidate);
+			if (candidateScore > bestScore) {
+				best = i;
+				bestScore = candidateScore;
+			}
+		});
+		return best;
 	}
 
 	getQuickInfoAtPosition(fileName: string, position: number): Promise<ts.QuickInfo> {
 		return Promise.as(this._languageService.getQuickInfoAtPosition(fileName, position));
 	}
 
+	getArgumentInfoAtPosition(fileName: string, position: number): Promise<IArgumentInfo> {
+		const program = this._languageService.getProgram();
+		const sourceFile = program.getSourceFile(fileName);
+		const typeChecker = program.getTypeChecker();
+
+		// the innermost call with an argument around the position
+		let node: ts.Node = (ts as any).getTokenAtPosition(sourceFile, position);
+		let call: ts.CallExpression | ts.NewExpression;
+		let argumentIndex = -1;
+		while (node && node.parent) {
+			const parent = node.parent;
+			if (parent.kind === ts.SyntaxKind.CallExpression || parent.kind === ts.SyntaxKind.NewExpression) {
+				call = <ts.CallExpression | ts.NewExpression>parent;
+				argumentIndex = call.arguments ? call.arguments.indexOf(<ts.Expression>node) : -1;
+				if (argumentIndex !== -1) {
+					break;
+				}
+			}
+			node = parent;
+		}
+		if (argumentIndex === -1) {
+			return Promise.as(undefined);
+		}
+
+		// the resolved signature is the overload that matches the arguments
+		const signature = typeChecker.getResolvedSignature(call);
+		if (!signature || signature.parameters.length === 0) {
+			return Promise.as(undefined);
+		}
+		const parameters = signature.parameters;
+		const hasRestParameter: boolean = (signature as any).hasRestParameter;
+		if (argumentIndex >= parameters.length && !hasRestParameter) {
+			return Promise.as(undefined);
+		}
+		const parameter = parameters[Math.min(argumentIndex, parameters.length - 1)];
+		const parameterType = typeChecker.getTypeOfSymbolAtLocation(parameter, call);
+		const isRest = hasRestParameter && parameter === parameters[parameters.length - 1];
+
+		const argument = call.arguments[argumentIndex];
+		const start = argument.getStart(sourceFile);
+		return Promise.as({
+			span: ts.createTextSpan(start, argument.getEnd() - start),
+			name: parameter.getName(),
+			label: `${isRest ? '...' : ''}${parameter.getName()}: ${typeChecker.typeToString(parameterType)}`,
+			documentation: parameter.getDocumentationComment()
+		});
+	}
+
 	getOccurrencesAtPosition(fileName: string, position: number): Promise<ts.ReferenceEntry[]> {
 		return Promise.as(this._languageService.getOccurrencesAtPosition(fileName, position));
 	}
@@ -228,12 +1000,162 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 		return Promise.as(this._languageService.getReferencesAtPosition(fileName, position));
 	}
 
+	getRenameInfo(fileName: string, position: number): Promise<ts.RenameInfo> {
+		const info = this._languageService.getRenameInfo(fileName, position);
+		if (info.canRename) {
+			const definitions = this._languageService.getDefinitionAtPosition(fileName, position) || [];
+			if (definitions.some(definition => this._isLibFileName(definition.fileName))) {
+				info.canRename = false;
+				info.localizedErrorMessage = 'You cannot rename elements that are defined in a library.';
+			}
+		}
+		return Promise.as(info);
+	}
+
+	findRenameLocations(fileName: string, position: number, findInStrings: boolean, findInComments: boolean): Promise<ts.RenameLocation[]> {
+		return Promise.as(this._languageService.findRenameLocations(fileName, position, findInStrings, findInComments));
+	}
+
+	getLibFileContents(fileName: string): Promise<string> {
+		return Promise.as(fileName in this._extraLibs ? this._extraLibs[fileName] : this._getLibContents(fileName));
+	}
+
+	private _isLibFileName(fileName: string): boolean {
+		return fileName in this._extraLibs || this._getLibContents(fileName) !== undefined;
+	}
+
+	/**
+	 * Searches the declarations of all models, and of the libs when asked to.
+	 */
+	getWorkspaceSymbols(query: string, maxResultCount: number, includeLibs: boolean): Promise<ts.NavigateToItem[]> {
+		let items = this._languageService.getNavigateToItems(query);
+		if (!includeLibs) {
+			items = items.filter(item => !this._isLibFileName(item.fileName));
+		}
+		return Promise.as(items.slice(0, maxResultCount));
+	}
+
 	getNavigationBarItems(fileName: string): Promise<ts.NavigationBarItem[]> {
 		return Promise.as(this._languageService.getNavigationBarItems(fileName));
 	}
 
+	getEncodedSemanticClassifications(fileName: string, start: number, length: number): Promise<ts.Classifications> {
+		return Promise.as(this._languageService.getEncodedSemanticClassifications(fileName, ts.createTextSpan(start, length)));
+	}
+
+	/**
+	 * Returns the exports of other modules which start with the prefix and aren't in scope yet.
+	 */
+	getAutoImportCompletions(fileName: string, position: number, prefix: string): Promise<IAutoImport[]> {
+		const program = this._languageService.getProgram();
+		const sourceFile = program.getSourceFile(fileName);
+		if (!sourceFile || !prefix) {
+			return Promise.as([]);
+		}
+		const typeChecker = program.getTypeChecker();
+		const location: ts.Node = (ts as any).findPrecedingToken(position, sourceFile) || sourceFile;
+		const inScope: { [name: string]: boolean } = Object.create(null);
+		for (let symbol of typeChecker.getSymbolsInScope(location, ts.SymbolFlags.Value | ts.SymbolFlags.Type | ts.SymbolFlags.Namespace | ts.SymbolFlags.Alias)) {
+			inScope[symbol.name] = true;
+		}
+
+		const result: IAutoImport[] = [];
+		const lowerCasePrefix = prefix.toLowerCase();
+		for (let moduleFileName of this._ctx.getMirrorModels().map(model => model.uri.toString())) {
+			const moduleSpecifier = moduleFileName !== fileName && getModuleSpecifier(fileName, moduleFileName);
+			const moduleFile = moduleSpecifier && program.getSourceFile(moduleFileName);
+			const moduleSymbol = moduleFile && typeChecker.getSymbolAtLocation(moduleFile);
+			if (!moduleSymbol) {
+				// not a module
+				continue;
+			}
+			for (let symbol of typeChecker.getExportsOfModule(moduleSymbol)) {
+				const name = symbol.name;
+				if (name === 'default' || inScope[name] || name.toLowerCase().indexOf(lowerCasePrefix) !== 0) {
+					continue;
+				}
+				const declaration = symbol.declarations && symbol.declarations[0];
+				result.push({
+					name,
+					kind: (ts as any).SymbolDisplay.getSymbolKind(typeChecker, symbol, declaration || moduleFile),
+					moduleSpecifier,
+					fileName: moduleFileName,
+					position: declaration ? declaration.getStart() : 0
+				});
+			}
+		}
+		return Promise.as(result);
+	}
+
+	/**
+	 * Returns the edits that import `name` from the module, extending an
+	 * existing import of that module when there is one.
+	 */
+	getAutoImportEdits(fileName: string, name: string, moduleSpecifier: string): Promise<ts.TextChange[]> {
+		const sourceFile = this._languageService.getProgram().getSourceFile(fileName);
+		if (!sourceFile) {
+			return Promise.as([]);
+		}
+		let lastImport: ts.ImportDeclaration;
+		for (let statement of sourceFile.statements) {
+			if (statement.kind !== ts.SyntaxKind.ImportDeclaration) {
+				continue;
+			}
+			const importDeclaration = <ts.ImportDeclaration>statement;
+			lastImport = importDeclaration;
+			const specifier = <ts.StringLiteral>importDeclaration.moduleSpecifier;
+			const bindings = importDeclaration.importClause && importDeclaration.importClause.namedBindings;
+			if (specifier.text === moduleSpecifier && bindings && bindings.kind === ts.SyntaxKind.NamedImports) {
+				const elements = (<ts.NamedImports>bindings).elements;
+				if (elements.some(element => element.name.text === name)) {
+					return Promise.as([]);
+				}
+				if (elements.length) {
+					const last = elements[elements.length - 1];
+					return Promise.as([{ span: { start: last.end, length: 0 }, newText: `, ${name}` }]);
+				}
+				// `import {} from '...'`
+				return Promise.as([{ span: { start: bindings.getStart(sourceFile) + 1, length: 0 }, newText: ` ${name} ` }]);
+			}
+		}
+
+		const newLine = sourceFile.text.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+		const newText = `import { ${name} } from "${moduleSpecifier}";`;
+		if (lastImport) {
+			return Promise.as([{ span: { start: lastImport.end, length: 0 }, newText: newLine + newText }]);
+		}
+		return Promise.as([{ span: { start: 0, length: 0 }, newText: newText + newLine }]);
+	}
+
+	/**
+	 * Returns the exported functions and namespaces whose name matches the query
+	 * by prefix, camel case or fuzzily, best matches first.
+	 */
+	getIndexedSymbols(query: string, maxResultCount: number = 100): Promise<ts.NavigateToItem[]> {
+		if (!query) {
+			return Promise.as([]);
+		}
+		this._symbolIndex.update(this._languageService.getProgram(), fileName => this.getScriptVersion(fileName));
+		return Promise.as(this._symbolIndex.search(query, maxResultCount, item => !isFilteredCompletion(this._completionFilter, this._completionNamePatterns,
+			item.name, item.kind, item.containerName ? `${item.containerName}.${item.name}` : item.name)));
+	}
+
 	getNavigateToItems(searchValue: string, maxResultCount?: number): Promise<ts.NavigateToItem[]> {
-		return Promise.as(this._languageService.getNavigateToItems(searchValue, maxResultCount));
+		const items = this._languageService.getNavigateToItems(searchValue, maxResultCount)
+			.filter(item => !isFilteredCompletion(this._completionFilter, this._completionNamePatterns, item.name, item.kind,
+				item.containerName ? `${item.containerName}.${item.name}` : item.name));
+		return Promise.as(items);
+	}
+
+	getCodeFixesAtPosition(fileName: string, start: number, end: number, errorCodes: number[], options: ts.FormatCodeOptions): Promise<ts.CodeAction[]> {
+		const supportedCodes = ts.getSupportedCodeFixes();
+		errorCodes = errorCodes.filter(code => supportedCodes.indexOf(String(code)) !== -1);
+		if (errorCodes.length === 0) {
+			return Promise.as([]);
+		}
+		// code fixes only understand the camel-cased format settings
+		const settings = <ts.FormatCodeSettings>ts.toEditorSettings(options);
+		return Promise.as(this._languageService.getCodeFixesAtPosition(fileName, start, end, errorCodes, settings));
 	}
 
 	getFormattingEditsForDocument(fileName: string, options: ts.FormatCodeOptions): Promise<ts.TextChange[]> {
@@ -266,7 +1188,8 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 		return Promise.as(cmt);
 	}
 
-	getCompletionEntryDetailsAndSnippet(fileName: string, position: number, entry: string, label: string, parent?: string): Promise<[ts.CompletionEntryDetails, string]> {
+	getCompletionEntryDetailsAndSnippet(fileName: string, position: number, entry: string, label: string, parent?: string,
+		callbackOptions: monaco.languages.typescript.CallbackSnippetOptions = {}): Promise<[ts.CompletionEntryDetails, string]> {
 		let typeChecker = this._languageService.getProgram().getTypeChecker();
 		let sourceFile = this._languageService.getProgram().getSourceFile(fileName);
 		let symbol = this._languageService.getCompletionEntrySymbol(fileName, position, entry);
@@ -282,7 +1205,7 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 			}
 		}
 
-		const { displayParts, documentation, symbolKind } = (ts as any).SymbolDisplay.getSymbolDisplayPartsDocumentationAndSymbolKind(typeChecker, symbol, sourceFile, location, location, (ts as any).SemanticMeaning.All);
+		const { displayParts, documentation, symbolKind } = (ts as any).SymbolDisplay.getSymbolDisplayPartsDocumentationAndSymbolKind(typeChecker, symbol, sourceFile, sourceFile, sourceFile, (ts as any).SemanticMeaning.All);
 		let entryDetails: ts.CompletionEntryDetails = {
 			name: entry,
 			kindModifiers: (ts as any).SymbolDisplay.getSymbolModifiers(symbol),
@@ -298,31 +1221,64 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 			let type = typeChecker.getTypeOfSymbolAtLocation(symbol, symbol.valueDeclaration);
 			let signatures = type.getCallSignatures();
 
-			const defaultImgLit = `
-	. . . . .
-	. . . . .
-	. . # . .
-	. . . . .
-	. . . . .
-	`
 			let renderDefaultVal = function (name: string, type: string): string {
 				switch (type) {
 					case "number": return "0";
 					case "boolean": return "false";
-					case "string": return (name == "leds" ? "`" + defaultImgLit + "`" : "\"\"");
+					case "string": return "\"\"";
 				}
 				return `\${1:${name}}`;
 			}
 
+			// `//% name.defl=value` and `//% name.shadow=blockId` of the function,
+			// then the defaults of the host
+			const attributes = this._getCommentAttributes(symbol);
+			const qualifiedName = typeChecker.getFullyQualifiedName(symbol);
+			const parameterDefaults = this._parameterDefaults;
+			const symbolIndex = this._symbolIndex;
+			symbolIndex.update(this._languageService.getProgram(), fileName => this.getScriptVersion(fileName));
+			let renderAnnotatedDefault = function (parameter: ts.Symbol, parameterType: ts.Type): string {
+				const name = parameter.getName();
+				const defl = attributes[`${name}.defl`];
+				if (defl !== undefined) {
+					const isString = parameterType && parameterType.flags & ts.TypeFlags.StringLike;
+					return isString && !/^["'`]/.test(defl) ? JSON.stringify(defl) : defl;
+				}
+				// the shadow is the block of the function that creates the value
+				const shadowFunction = attributes[`${name}.shadow`] && symbolIndex.getBlockFunction(attributes[`${name}.shadow`]);
+				if (shadowFunction) {
+					return `${shadowFunction}()`;
+				}
+				return parameterDefaults[`${qualifiedName}.${name}`];
+			}
+			let renderHostDefault = function (parameter: ts.Symbol, parameterType: ts.Type): string {
+				const name = parameter.getName();
+				if (name in parameterDefaults) {
+					return parameterDefaults[name];
+				}
+				if (parameterType) {
+					const typeString = parameterType.symbol
+						? typeChecker.getFullyQualifiedName(parameterType.symbol)
+						: typeChecker.typeToString(parameterType);
+					return parameterDefaults[typeString];
+				}
+				return undefined;
+			}
+
+			// javascript can't have type annotations
+			const scriptKind: ts.ScriptKind = (<any>sourceFile).scriptKind;
+			const typedParameters = callbackOptions.typedParameters !== false
+				&& scriptKind !== ts.ScriptKind.JS && scriptKind !== ts.ScriptKind.JSX;
+
 			let signatureParameters = (signature: ts.Signature) => {
 				let minArgumentCount = (signature as any).minArgumentCount;
 				let suggestionArgumentNames: string[] = [];
 				signature.parameters.slice(0, minArgumentCount).forEach(parameter => {
 					const parameterName = parameter.getName();
-					const parameterType = typeChecker.getTypeOfSymbolAtLocation(parameter, parameter.valueDeclaration);
+					const parameterType = typedParameters && typeChecker.getTypeOfSymbolAtLocation(parameter, parameter.valueDeclaration);
 					if (parameterType) {
 						let typeString: string;
-						if (parameterType.symbol) {
+						if (parameterType.symbol && callbackOptions.qualifiedTypeNames !== false) {
 							typeString = typeChecker.getFullyQualifiedName(parameterType.symbol);
 						}
 						else {
@@ -344,6 +1300,10 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 
 			let renderParameter = function (signature: ts.Signature, parameter: ts.Symbol): string {
 				let parameterType = typeChecker.getTypeOfSymbolAtLocation(parameter, parameter.valueDeclaration);
+				let annotatedDefault = renderAnnotatedDefault(parameter, parameterType);
+				if (annotatedDefault !== undefined) {
+					return annotatedDefault;
+				}
 				let documentationComment = parameter.getDocumentationComment();
 				// Get parameter defaults from JsDoc:
 				let parameterDoc = ts.displayPartsToString(documentationComment);
@@ -359,6 +1319,10 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 						return match[3];
 					}
 				}
+				let hostDefault = renderHostDefault(parameter, parameterType);
+				if (hostDefault !== undefined) {
+					return hostDefault;
+				}
 				if (parameterType && parameterType.flags) {
 					let flags = parameterType.flags;
 					if (flags & ts.TypeFlags.EnumLiteral) {
@@ -401,6 +1365,9 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 									returnValue = "return false;$0";
 								functionArgument = signatureParameters(functionSignature[0]);
 							}
+							if (callbackOptions.style === 'arrow') {
+								return `${functionArgument} => {\n\t${returnValue}\n}`;
+							}
 							return `function ${functionArgument} {\n\t${returnValue}\n}`
 						} else {
 							const typeString = typeChecker.typeToString(parameterType);
@@ -438,9 +1405,56 @@ export class TypeScriptWorker implements ts.LanguageServiceHost {
 	}
 }
 
+/**
+ * A completion entry with what can be shown before it is resolved.
+ */
+export interface ICompletionEntry extends ts.CompletionEntry {
+	/**
+	 * The name with its namespace and signature or type, like `basic.showNumber(value: number): void`.
+	 */
+	detail?: string;
+	containerName?: string;
+	/**
+	 * Where the symbol is declared, if it is the same wherever it is completed.
+	 */
+	declaration?: { fileName: string; pos: number };
+}
+
+export interface IAutoImport {
+	name: string;
+	kind: string;
+	/**
+	 * The module to import from, relative to the importing file, like `"./utils"`.
+	 */
+	moduleSpecifier: string;
+	fileName: string;
+	/**
+	 * A position in the module at which the export is in scope.
+	 */
+	position: number;
+}
+
+/**
+ * `full` inserts the call with placeholders for all arguments, `parentheses` an empty
+ * argument list and `none` only the name, e.g. when there already is an argument list.
+ */
+export type CallSnippetMode = 'full' | 'parentheses' | 'none';
+
+export interface IArgumentInfo {
+	/**
+	 * The span of the argument, not of the whole argument list.
+	 */
+	span: ts.TextSpan;
+	name: string;
+	label: string;
+	documentation: ts.SymbolDisplayPart[];
+}
+
 export interface ICreateData {
 	compilerOptions: ts.CompilerOptions;
 	extraLibs: { [path: string]: string };
+	completionFilter: monaco.languages.typescript.CompletionFilter;
+	parameterDefaults: { [key: string]: string };
 }
 
 export function create(ctx: IWorkerContext, createData: ICreateData): TypeScriptWorker {
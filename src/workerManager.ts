@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 'use strict';
 
-import { LanguageServiceDefaultsImpl } from './monaco.contribution';
+import { LanguageServiceDefaultsImpl, IExtraLibChange } from './monaco.contribution';
 import { TypeScriptWorker } from './worker';
 
 import Promise = monaco.Promise;
@@ -17,7 +17,7 @@ export class WorkerManager {
 	private _defaults: LanguageServiceDefaultsImpl;
 	private _idleCheckInterval: number;
 	private _lastUsedTime: number;
-	private _configChangeListener: IDisposable;
+	private _listeners: IDisposable[];
 
 	private _worker: monaco.editor.MonacoWebWorker<TypeScriptWorker>;
 	private _client: Promise<TypeScriptWorker>;
@@ -28,7 +28,32 @@ export class WorkerManager {
 		this._worker = null;
 		this._idleCheckInterval = setInterval(() => this._checkIfIdle(), 30 * 1000);
 		this._lastUsedTime = 0;
-		this._configChangeListener = this._defaults.onDidChange(() => this._stopWorker());
+		// only new compiler options require a new program, extra libs,
+		// the completion filter and parameter defaults are pushed into the running worker
+		this._listeners = [
+			this._defaults.onDidChangeCompilerOptions(() => this._stopWorker()),
+			this._defaults.onDidChangeExtraLib(change => this._updateExtraLib(change)),
+			this._defaults.onDidChangeCompletionFilter(() => this._updateWorker(worker => worker.setCompletionFilter(this._defaults.getCompletionFilter()))),
+			this._defaults.onDidChangeParameterDefaults(() => this._updateWorker(worker => worker.setParameterDefaults(this._defaults.getParameterDefaults())))
+		];
+	}
+
+	private _updateWorker(update: (worker: TypeScriptWorker) => Promise<void>): void {
+		if (!this._client) {
+			// the next worker is created with the current defaults
+			return;
+		}
+		this._client.then(update).done(undefined, err => {
+			console.error(err);
+		});
+	}
+
+	private _updateExtraLib(change: IExtraLibChange): void {
+		this._updateWorker(worker => {
+			return typeof change.content === 'undefined'
+				? worker.removeExtraLib(change.filePath)
+				: worker.updateExtraLib(change.filePath, change.content);
+		});
 	}
 
 	private _stopWorker(): void {
@@ -41,7 +66,7 @@ export class WorkerManager {
 
 	dispose(): void {
 		clearInterval(this._idleCheckInterval);
-		this._configChangeListener.dispose();
+		this._listeners.forEach(listener => listener.dispose());
 		this._stopWorker();
 	}
 
@@ -70,7 +95,9 @@ export class WorkerManager {
 				// passed in to the create() method
 				createData: {
 					compilerOptions: this._defaults.getCompilerOptions(),
-					extraLibs: this._defaults.getExtraLibs()
+					extraLibs: this._defaults.getExtraLibs(),
+					completionFilter: this._defaults.getCompletionFilter(),
+					parameterDefaults: this._defaults.getParameterDefaults()
 				}
 			});
 
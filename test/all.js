@@ -1,5 +1,15 @@
+var fs = require("fs");
+var vm = require("vm");
 var requirejs = require("requirejs");
 
+// the worker expects the monaco API of the editor's web worker, take it from the worker bundle
+var workerGlobal = { setTimeout: setTimeout, clearTimeout: clearTimeout, setInterval: setInterval, clearInterval: clearInterval, console: console };
+workerGlobal.self = workerGlobal;
+vm.runInNewContext(fs.readFileSync(require.resolve("monaco-editor-core/dev/vs/base/worker/workerMain.js"), "utf8"), workerGlobal);
+workerGlobal.require(["vs/editor/common/standalone/standaloneBase"], function(standaloneBase) {
+    global.monaco = standaloneBase.createMonacoBaseAPI();
+});
+
 requirejs.config({
     baseUrl: 'out',
          paths: {
@@ -9,7 +19,13 @@ requirejs.config({
 });
 
  requirejs([
-     'vs/language/typescript/test/tokenization.test'
+     'vs/language/typescript/test/tokenization.test',
+     'vs/language/typescript/test/snapshot.test',
+     'vs/language/typescript/test/annotations.test',
+     'vs/language/typescript/test/autoImport.test',
+     'vs/language/typescript/test/symbolIndex.test',
+     'vs/language/typescript/test/callSnippet.test',
+     'vs/language/typescript/test/statementPosition.test'
 ], function() {
     run(); // We can launch the tests!
 });
\ No newline at end of file
@@ -0,0 +1,48 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import {parseCommentAttributes} from '../src/worker';
+
+suite('annotations', () => {
+
+	test('values', () => {
+		assert.deepEqual(parseCommentAttributes('//% weight=90 blockGap=8'), { weight: '90', blockGap: '8' });
+		assert.deepEqual(parseCommentAttributes('  //%weight = 90'), { weight: '90' });
+		assert.deepEqual(parseCommentAttributes('//% x.defl=5 shadow=colorNumberPicker'), { 'x.defl': '5', shadow: 'colorNumberPicker' });
+	});
+
+	test('quoted values', () => {
+		assert.deepEqual(parseCommentAttributes('//% block="show number %v" blockId=\'device_show_number\''), {
+			block: 'show number %v',
+			blockId: 'device_show_number'
+		});
+		assert.deepEqual(parseCommentAttributes('//% block=""'), { block: '' });
+	});
+
+	test('bare flags', () => {
+		assert.deepEqual(parseCommentAttributes('//% advanced'), { advanced: 'true' });
+		assert.deepEqual(parseCommentAttributes('//% blockHidden deprecated=1'), { blockHidden: 'true', deprecated: '1' });
+	});
+
+	test('multiple lines', () => {
+		const comment = [
+			'/**',
+			' * Shows a number.',
+			' */',
+			'//% weight=90',
+			'// weight=10 is not an annotation',
+			'//% blockGap=8',
+			'//% weight=95'
+		].join('\n');
+		assert.deepEqual(parseCommentAttributes(comment), { weight: '95', blockGap: '8' });
+	});
+
+	test('no annotations', () => {
+		assert.deepEqual(parseCommentAttributes(''), {});
+		assert.deepEqual(parseCommentAttributes('/** weight=90 */'), {});
+	});
+});
@@ -0,0 +1,85 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import {getModuleSpecifier} from '../src/worker';
+import {createWorker} from './workerContext';
+
+suite('autoImport', () => {
+
+	test('same directory', () => {
+		assert.equal(getModuleSpecifier('file:///src/main.ts', 'file:///src/utils.ts'), './utils');
+		assert.equal(getModuleSpecifier('file:///src/main.ts', 'file:///src/view.tsx'), './view');
+		assert.equal(getModuleSpecifier('file:///src/main.js', 'file:///src/helpers.js'), './helpers');
+	});
+
+	test('other directories', () => {
+		assert.equal(getModuleSpecifier('file:///src/game/main.ts', 'file:///src/utils.ts'), '../utils');
+		assert.equal(getModuleSpecifier('file:///src/main.ts', 'file:///src/game/sprites.ts'), './game/sprites');
+		assert.equal(getModuleSpecifier('file:///src/game/main.ts', 'file:///src/ui/button.ts'), '../ui/button');
+	});
+
+	test('no module specifier', () => {
+		assert.equal(getModuleSpecifier('file:///src/main.ts', 'file:///src/typings.d.ts'), undefined);
+		assert.equal(getModuleSpecifier('file:///src/main.ts', 'file:///src/data.json'), undefined);
+		assert.equal(getModuleSpecifier('file:///src/main.ts', 'inmemory://model/utils.ts'), undefined);
+		assert.equal(getModuleSpecifier('inmemory://a/main.ts', 'inmemory://b/utils.ts'), undefined);
+	});
+
+	function assertImport(text: string, name: string, expected: string): monaco.Promise<void> {
+		const fileName = 'file:///src/main.ts';
+		const worker = createWorker({ [fileName]: text, 'file:///src/utils.ts': 'export function fill() {}\nexport function clear() {}' });
+		return worker.getAutoImportEdits(fileName, name, './utils').then(edits => {
+			let result = text;
+			for (let edit of edits.sort((a, b) => b.span.start - a.span.start)) {
+				result = result.slice(0, edit.span.start) + edit.newText + result.slice(edit.span.start + edit.span.length);
+			}
+			assert.equal(result, expected);
+		});
+	}
+
+	test('existing named import', () => {
+		return assertImport(
+			'import { fill } from "./utils";\nclear',
+			'clear',
+			'import { fill, clear } from "./utils";\nclear');
+	});
+
+	test('empty named import', () => {
+		return assertImport(
+			'import {} from "./utils";\nclear',
+			'clear',
+			'import { clear } from "./utils";\nclear');
+	});
+
+	test('after the last import', () => {
+		return assertImport(
+			'import * as utils from "./utils";\nimport { x } from "./other";\nclear',
+			'clear',
+			'import * as utils from "./utils";\nimport { x } from "./other";\nimport { clear } from "./utils";\nclear');
+	});
+
+	test('top of the file', () => {
+		return assertImport(
+			'let x = 1;\nclear',
+			'clear',
+			'import { clear } from "./utils";\nlet x = 1;\nclear');
+	});
+
+	test('line breaks of the file', () => {
+		return assertImport(
+			'let x = 1;\r\nclear',
+			'clear',
+			'import { clear } from "./utils";\r\nlet x = 1;\r\nclear');
+	});
+
+	test('already imported', () => {
+		return assertImport(
+			'import { clear, fill } from "./utils";\nclear',
+			'clear',
+			'import { clear, fill } from "./utils";\nclear');
+	});
+});
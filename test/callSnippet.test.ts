@@ -0,0 +1,89 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import {createWorker, withCursor} from './workerContext';
+
+suite('callSnippet', () => {
+
+	const fileName = 'file:///main.ts';
+
+	function assertSnippet(source: string, entry: string, expected: string, parameterDefaults?: { [key: string]: string }): monaco.Promise<void> {
+		const { text, position } = withCursor(source);
+		const worker = createWorker({ [fileName]: text }, parameterDefaults);
+		return worker.getCompletionEntryDetailsAndSnippet(fileName, position, entry, entry).then(result => {
+			assert.equal(result[1], expected);
+		});
+	}
+
+	function assertModes(cases: [string, string][]): monaco.Promise<void> {
+		return cases.reduce((previous, [source, expected]) => previous.then(() => {
+			const { text, position } = withCursor(source);
+			return createWorker({ [fileName]: text }).getCallSnippetMode(fileName, position);
+		}).then(mode => {
+			assert.equal(mode, expected, source);
+		}), monaco.Promise.as<void>(undefined));
+	}
+
+	test('full snippet', () => {
+		return assertModes([
+			['fo|', 'full'],
+			['fo|\nbar()', 'full'],
+			['fo| // comment', 'full'],
+			['fo|;', 'full'],
+			['bar(1, fo|)', 'full'],
+			['bar(fo|, 1)', 'full'],
+			['let a = [fo|]', 'full'],
+			['if (true) { fo| }', 'full']
+		]);
+	});
+
+	test('parentheses only', () => {
+		return assertModes([
+			['x = fo| + 1', 'parentheses'],
+			['x = fo|o + 1', 'parentheses'],
+			['let b = fo| && true', 'parentheses']
+		]);
+	});
+
+	test('no snippet', () => {
+		return assertModes([
+			['fo|(1)', 'none'],
+			['fo|o(1)', 'none'],
+			['fo| (1)', 'none'],
+			['fo|.bar', 'none'],
+			['fo|<number>(1)', 'none'],
+			['fo| /* comment */ (1)', 'none']
+		]);
+	});
+
+	const music = [
+		'namespace music {',
+		'    //% blockId=device_note',
+		'    export function noteFrequency(name: number): number { return name; }',
+		'}',
+		'namespace basic {',
+		'    //% freq.shadow=device_note',
+		'    export function playTone(freq: number) {}',
+		'    //% freq.shadow=unknown_block',
+		'    export function ring(freq: number) {}',
+		'}',
+		''
+	].join('\n');
+
+	test('shadow block', () => {
+		return assertSnippet(music + 'basic.play|', 'playTone', 'playTone(music.noteFrequency())');
+	});
+
+	test('unknown shadow block', () => {
+		return assertSnippet(music + 'basic.ri|', 'ring', 'ring(0)');
+	});
+
+	test('default value', () => {
+		return assertSnippet('namespace basic {\n    //% text.defl=hello\n    export function say(text: string, times: number) {}\n}\nbasic.s|', 'say', 'say("hello", 2)',
+			{ 'basic.say.times': '2' });
+	});
+});
@@ -0,0 +1,47 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import * as ts from '../lib/typescriptServices';
+import {ScriptSnapshot} from '../src/worker';
+
+suite('snapshot', () => {
+
+	function assertChangeRange(oldText: string, newText: string, start: number, length: number, newLength: number): void {
+		const range = new ScriptSnapshot(newText).getChangeRange(new ScriptSnapshot(oldText));
+		assert.deepEqual({ start: range.span.start, length: range.span.length, newLength: range.newLength }, { start, length, newLength },
+			JSON.stringify(oldText) + ' -> ' + JSON.stringify(newText));
+	}
+
+	test('identical text', () => {
+		const range = new ScriptSnapshot('let x = 1;').getChangeRange(new ScriptSnapshot('let x = 1;'));
+		assert.equal(range, ts.unchangedTextChangeRange);
+	});
+
+	test('insertion, deletion and replacement', () => {
+		assertChangeRange('let x = 1;', 'let xy = 1;', 5, 0, 1);
+		assertChangeRange('let xy = 1;', 'let x = 1;', 5, 1, 0);
+		assertChangeRange('let x = 1;', 'let x = 42;', 8, 1, 2);
+		assertChangeRange('foo();', 'bar();', 0, 3, 3);
+	});
+
+	test('prefix and suffix overlap', () => {
+		// the common prefix takes the repeated character, the suffix must not take it again
+		assertChangeRange('aa', 'aaa', 2, 0, 1);
+		assertChangeRange('aaa', 'aa', 2, 1, 0);
+		assertChangeRange('abab', 'ab', 2, 2, 0);
+	});
+
+	test('empty text', () => {
+		assertChangeRange('', 'let x;', 0, 0, 6);
+		assertChangeRange('let x;', '', 0, 6, 0);
+	});
+
+	test('other snapshots', () => {
+		const range = new ScriptSnapshot('let x;').getChangeRange(ts.ScriptSnapshot.fromString('let x;'));
+		assert.equal(range, undefined);
+	});
+});
@@ -0,0 +1,88 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import {createWorker, withCursor} from './workerContext';
+
+suite('statementPosition', () => {
+
+	const fileName = 'file:///main.ts';
+
+	function assertStatementPositions(cases: [string, boolean][]): monaco.Promise<void> {
+		return cases.reduce((previous, [source, expected]) => previous.then(() => {
+			const { text, position } = withCursor(source);
+			return createWorker({ [fileName]: text }).isStatementPosition(fileName, position);
+		}).then(result => {
+			assert.equal(result, expected, source);
+		}), monaco.Promise.as<void>(undefined));
+	}
+
+	test('start of the file', () => {
+		return assertStatementPositions([
+			['|', true],
+			['fo|', true],
+			['\n\n|', true]
+		]);
+	});
+
+	test('after a statement', () => {
+		return assertStatementPositions([
+			['let x = 1;|', true],
+			['let x = 1\n|', true],
+			['let x = 1\nfo|', true],
+			['while (true) { }\n|', true],
+			['let x = 1 |', false]
+		]);
+	});
+
+	test('blocks', () => {
+		return assertStatementPositions([
+			['function f() {\n    |\n}', true],
+			['namespace n { fo| }', true],
+			['if (true) |', true],
+			['if (true) { } else fo|', true],
+			['for (let i = 0; i < 3; i++) |', true],
+			['do | while (true)', true]
+		]);
+	});
+
+	test('case clauses', () => {
+		return assertStatementPositions([
+			['switch (1) {\n    case 1:\n        |\n}', true],
+			['switch (1) {\n    case 1: fo|\n}', true],
+			['switch (1) { default: | }', true],
+			['switch (1) { case | }', false]
+		]);
+	});
+
+	test('expressions', () => {
+		return assertStatementPositions([
+			['let x = |', false],
+			['let x = fo|', false],
+			['f(|)', false],
+			['let o = { |}', false],
+			['let f = (x: number) => |', false]
+		]);
+	});
+
+	test('strings and comments', () => {
+		return assertStatementPositions([
+			['let s = "|";', false],
+			['let s = `|`;', false],
+			['// |', false],
+			['/* | */', false],
+			['/**\n * |\n */', false]
+		]);
+	});
+
+	test('class bodies', () => {
+		return assertStatementPositions([
+			['class C {\n    |\n}', false],
+			['class C {\n    x = 1;\n    fo|\n}', false],
+			['class C {\n    m() {\n        |\n    }\n}', true]
+		]);
+	});
+});
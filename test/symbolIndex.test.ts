@@ -0,0 +1,86 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import {matchSymbolName, matchesCamelCase} from '../src/worker';
+import {createWorker} from './workerContext';
+
+suite('symbolIndex', () => {
+
+	test('prefix', () => {
+		assert.equal(matchSymbolName('show', 'showNumber'), 3);
+		assert.equal(matchSymbolName('SHOW', 'showNumber'), 3);
+		assert.equal(matchSymbolName('showNumber', 'showNumber'), 3);
+	});
+
+	test('camel case', () => {
+		assert.equal(matchSymbolName('shNu', 'showNumber'), 2);
+		assert.equal(matchSymbolName('sn', 'showNumber'), 2);
+		assert.equal(matchSymbolName('gv', 'get_value'), 2);
+		assert.equal(matchSymbolName('num', 'showNumber'), 2);
+
+		assert.ok(matchesCamelCase('shnu', 'showNumber'));
+		assert.ok(matchesCamelCase('v2', 'vector2'));
+		assert.ok(!matchesCamelCase('sw', 'showNumber'));
+		assert.ok(!matchesCamelCase('snx', 'showNumber'));
+	});
+
+	test('fuzzy', () => {
+		assert.equal(matchSymbolName('swnr', 'showNumber'), 1);
+		assert.equal(matchSymbolName('sbr', 'showNumber'), 1);
+	});
+
+	test('no match', () => {
+		assert.equal(matchSymbolName('xyz', 'showNumber'), 0);
+		assert.equal(matchSymbolName('nmb', 'showNumber'), 0);
+		assert.equal(matchSymbolName('shx', 'showNumber'), 0);
+	});
+
+	const worker = createWorker({
+		'file:///main.ts': [
+			'namespace basic {',
+			'    export function show() {}',
+			'    function hidden() {}',
+			'    namespace inner { export function deep() {} }',
+			'    export namespace outer { export function top() {} }',
+			'}',
+			'namespace a.b { export function dotted() {} }'
+		].join('\n'),
+		'file:///game.d.ts': [
+			'declare namespace game {',
+			'    function spawn(): void;',
+			'    namespace sprites { function create(): void; }',
+			'}'
+		].join('\n')
+	});
+
+	function assertIndexed(query: string, expected: string[]): monaco.Promise<void> {
+		return worker.getIndexedSymbols(query).then(items => {
+			// leave out the fuzzy matches of the default lib
+			items = items.filter(item => item.fileName.indexOf('file:///') === 0);
+			assert.deepEqual(items.map(item => item.containerName ? `${item.containerName}.${item.name}` : item.name), expected);
+		});
+	}
+
+	test('exported declarations', () => {
+		return assertIndexed('show', ['basic.show'])
+			.then(() => assertIndexed('outer', ['basic.outer']))
+			.then(() => assertIndexed('top', ['basic.outer.top']))
+			.then(() => assertIndexed('dotted', ['a.b.dotted']));
+	});
+
+	test('ambient declarations', () => {
+		return assertIndexed('spawn', ['game.spawn'])
+			.then(() => assertIndexed('sprites', ['game.sprites']))
+			.then(() => assertIndexed('create', ['game.sprites.create']));
+	});
+
+	test('declarations that are not exported', () => {
+		return assertIndexed('hidden', [])
+			.then(() => assertIndexed('inner', []))
+			.then(() => assertIndexed('deep', []));
+	});
+});
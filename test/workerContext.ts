@@ -0,0 +1,32 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import {TypeScriptWorker, create} from '../src/worker';
+
+/**
+ * Creates a worker over in-memory mirror models of the given files.
+ */
+export function createWorker(files: { [uri: string]: string }, parameterDefaults: { [key: string]: string } = {}): TypeScriptWorker {
+	const models: monaco.worker.IMirrorModel[] = Object.keys(files).map(uri => ({
+		uri: monaco.Uri.parse(uri),
+		version: 1,
+		getValue: () => files[uri]
+	}));
+	return create({ getMirrorModels: () => models }, {
+		compilerOptions: { allowNonTsExtensions: true, target: 5 /* ScriptTarget.Latest */ },
+		extraLibs: {},
+		completionFilter: {},
+		parameterDefaults
+	});
+}
+
+/**
+ * Removes the `|` that marks the cursor from the text.
+ */
+export function withCursor(text: string): { text: string; position: number } {
+	const position = text.indexOf('|');
+	return { text: text.slice(0, position) + text.slice(position + 1), position };
+}